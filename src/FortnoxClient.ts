@@ -5,38 +5,73 @@
  * Acts as a facade for the underlying services
  */
 
+import { EventEmitter } from 'events';
 import { AxiosInstance } from 'axios';
 import { InMemoryStore } from './stores/InMemoryStore';
-import { defaultStateStorage } from './utils/stateStorage';
+import { defaultStateStorage, StateStorage } from './utils/stateStorage';
 import {
   FortnoxTokens,
   FortnoxClientConfig,
   FortnoxAuthOptions,
   FortnoxAuthPayload,
+  FortnoxAccountType,
+  FortnoxStateData,
+  ConnectionInfo,
+  ConnectionMetadata,
+  ConnectionPage,
+  ListConnectionsOptions,
+  FortnoxClientEvents,
 } from './types';
 import {
   AuthorizationService,
   TokenManager,
   ApiClientFactory,
+  ConnectionMetadataService,
+  RevokeTokensOptions,
+  TokenKeepAlive,
+  TokenKeepAliveOptions,
+  FortnoxEventStream,
+  FortnoxEventStreamOptions,
 } from './services';
+import { FortnoxUserClient, ListParams } from './resources';
+import { paginate, PaginateOptions } from './utils/pagination';
+import { emitSafely } from './utils/events';
+import { consoleLogger, createRedactingLogger, Logger } from './utils/logger';
+import { FORTNOX_METRICS, MetricsRecorder, noopMetrics } from './utils/metrics';
+import { noopTracer, Tracer, withSpan } from './utils/tracing';
 
 const FORTNOX_AUTH_BASE_URL = 'https://apps.fortnox.se/oauth-v1';
 const FORTNOX_API_BASE_URL = 'https://api.fortnox.se/3';
 
 /**
  * FortnoxClient is the main class for interacting with the Fortnox API
- * It provides methods for OAuth flow, token management, and API access
+ * It provides methods for OAuth flow, token management, and API access,
+ * and emits events when connections change and API requests fail
  */
-export class FortnoxClient {
+export class FortnoxClient extends EventEmitter {
+  /**
+   * Redacting logger shared by the client, its services and the auth routes
+   */
+  public readonly logger: Logger;
+
   private authService: AuthorizationService;
   private tokenManager: TokenManager;
   private apiClientFactory: ApiClientFactory;
+  private connectionMetadataService: ConnectionMetadataService;
+  private accountType: FortnoxAccountType;
+  private clientSecret: string;
+  private collectConnectionMetadata: boolean;
+  private stateStorage: StateStorage;
+  private metrics: MetricsRecorder;
+  private tracer: Tracer;
 
   /**
    * Create a new FortnoxClient
    * @param config Configuration options
    */
   constructor(config: FortnoxClientConfig) {
+    super();
+
     const {
       clientId,
       clientSecret,
@@ -44,15 +79,33 @@ export class FortnoxClient {
       scopes = [],
       tokenStore = new InMemoryStore(),
       stateStorage = defaultStateStorage,
-      apiOptions = {}
+      apiOptions = {},
+      accountType = 'user',
+      refreshLock,
+      collectConnectionMetadata = true,
+      logger = consoleLogger,
+      metrics = noopMetrics,
+      tracer = noopTracer,
+      authBaseUrl = FORTNOX_AUTH_BASE_URL,
+      apiBaseUrl = FORTNOX_API_BASE_URL,
     } = config;
 
+    this.logger = createRedactingLogger(logger);
+    this.stateStorage = stateStorage;
+    this.metrics = metrics;
+    this.tracer = tracer;
+
+    this.accountType = accountType;
+    this.clientSecret = clientSecret;
+    this.collectConnectionMetadata = collectConnectionMetadata;
+
     // Initialize services
     this.tokenManager = new TokenManager(
       clientId,
       clientSecret,
       tokenStore,
-      FORTNOX_AUTH_BASE_URL
+      authBaseUrl,
+      { lock: refreshLock, logger, events: this, metrics, tracer }
     );
 
     this.authService = new AuthorizationService(
@@ -62,16 +115,46 @@ export class FortnoxClient {
       scopes,
       stateStorage,
       tokenStore,
-      FORTNOX_AUTH_BASE_URL
+      authBaseUrl
     );
 
     this.apiClientFactory = new ApiClientFactory(
       this.tokenManager,
       {
-        baseUrl: FORTNOX_API_BASE_URL,
-        ...apiOptions
+        baseUrl: apiBaseUrl,
+        logger,
+        metrics,
+        tracer,
+        ...apiOptions,
+        events: this,
       }
     );
+
+    this.connectionMetadataService = new ConnectionMetadataService(
+      this.tokenManager,
+      this.apiClientFactory
+    );
+  }
+
+  public on<E extends keyof FortnoxClientEvents>(
+    event: E,
+    listener: FortnoxClientEvents[E],
+  ): this {
+    return super.on(event, listener);
+  }
+
+  public once<E extends keyof FortnoxClientEvents>(
+    event: E,
+    listener: FortnoxClientEvents[E],
+  ): this {
+    return super.once(event, listener);
+  }
+
+  public off<E extends keyof FortnoxClientEvents>(
+    event: E,
+    listener: FortnoxClientEvents[E],
+  ): this {
+    return super.off(event, listener);
   }
 
   /**
@@ -81,16 +164,25 @@ export class FortnoxClient {
    * @returns Authorization URL and state for PKCE flow
    */
   public generateAuthUrl(userId: string, options?: FortnoxAuthOptions): FortnoxAuthPayload {
-    return this.authService.generateAuthUrl(userId, options);
+    const payload = this.authService.generateAuthUrl(userId, {
+      accountType: this.accountType,
+      ...options,
+    });
+
+    this.recordStateStoreSize();
+    return payload;
   }
 
   /**
    * Validates the state parameter and retrieves the associated user ID
    * @param state The state parameter from the callback
-   * @returns The user ID and code verifier if the state is valid
+   * @returns The user ID, code verifier and account type if the state is valid
    */
-  public validateState(state: string): { userId: string; codeVerifier: string } | null {
-    return this.authService.validateState(state);
+  public validateState(state: string): FortnoxStateData | null {
+    const stateData = this.authService.validateState(state);
+
+    this.recordStateStoreSize();
+    return stateData;
   }
 
   /**
@@ -98,48 +190,275 @@ export class FortnoxClient {
    * @param userId The ID of the user to associate with the tokens
    * @param code The authorization code from the callback
    * @param codeVerifier The code verifier used in the authorization request
+   * @param accountType The account type the authorization URL was generated for
+   * @param additionalCompany Connect another company instead of replacing the default connection,
+   * as returned by `validateState`
    * @returns The tokens received from Fortnox
    */
   public async exchangeCodeForTokens(
     userId: string,
     code: string,
     codeVerifier: string,
+    accountType?: FortnoxAccountType,
+    additionalCompany?: boolean,
+  ): Promise<FortnoxTokens> {
+    const tokens = await withSpan(
+      this.tracer,
+      'fortnox.exchange_code',
+      {
+        'fortnox.user_id': userId,
+        'fortnox.account_type': accountType,
+        'fortnox.additional_company': Boolean(additionalCompany),
+      },
+      () => this.authService.exchangeCodeForTokens(
+        userId,
+        code,
+        codeVerifier,
+        accountType,
+        additionalCompany
+      )
+    );
+
+    const tenantId = additionalCompany ? tokens.tenant_id : undefined;
+    await this.collectMetadataOnConnect(userId, tenantId);
+    emitSafely(this, this.logger, 'connected', {
+      userId,
+      tenantId,
+      accountType: tokens.account_type || 'user',
+    });
+    return tokens;
+  }
+
+  /**
+   * Authorizes a service account using the client credentials grant and stores its tokens
+   * @param userId The ID of the user to associate with the tokens
+   * @param tenantId The Fortnox tenant ID that authorized the integration as a service account
+   * @param additionalCompany Connect another company instead of replacing the default connection
+   * @returns The tokens received from Fortnox
+   */
+  public async authorizeServiceAccount(
+    userId: string,
+    tenantId: string,
+    additionalCompany?: boolean,
   ): Promise<FortnoxTokens> {
-    return this.authService.exchangeCodeForTokens(userId, code, codeVerifier);
+    const tokens = await this.tokenManager.authorizeServiceAccount(
+      userId,
+      tenantId,
+      additionalCompany
+    );
+
+    const connectionTenantId = additionalCompany ? tenantId : undefined;
+    await this.collectMetadataOnConnect(userId, connectionTenantId);
+    emitSafely(this, this.logger, 'connected', {
+      userId,
+      tenantId: connectionTenantId,
+      accountType: 'service',
+    });
+    return tokens;
   }
 
   /**
    * Gets tokens for a user
    * @param userId The user ID to get tokens for
+   * @param tenantId The company to get tokens for; the default connection if omitted
    * @returns The tokens or null if not found
    */
-  public async getTokens(userId: string): Promise<FortnoxTokens | null> {
-    return this.tokenManager.getTokens(userId);
+  public async getTokens(userId: string, tenantId?: string): Promise<FortnoxTokens | null> {
+    return this.tokenManager.getTokens(userId, tenantId);
   }
 
   /**
    * Refreshes the access token using the refresh token
    * @param userId The ID of the user to refresh tokens for
+   * @param tenantId The company to refresh tokens for; the default connection if omitted
    * @returns The refreshed tokens
    */
-  public async refreshTokens(userId: string): Promise<FortnoxTokens> {
-    return this.tokenManager.refreshTokens(userId);
+  public async refreshTokens(userId: string, tenantId?: string): Promise<FortnoxTokens> {
+    return this.tokenManager.refreshTokens(userId, tenantId);
   }
 
   /**
-   * Revokes the tokens for a user
+   * Revokes the refresh token at Fortnox and deletes the tokens locally
    * @param userId The ID of the user to revoke tokens for
+   * @param options Set `deleteOnFailure` to delete locally even if Fortnox rejects the revocation,
+   * and `tenantId` to disconnect one of the user's other companies
+   * @throws TokenRevocationError if revoking at Fortnox or deleting locally fails
+   */
+  public async revokeTokens(userId: string, options?: RevokeTokensOptions): Promise<void> {
+    return this.tokenManager.revokeTokens(userId, options);
+  }
+
+  /**
+   * Lists a page of connected users. Requires a token store that supports listing connections.
+   * @param options Page size and the cursor returned by the previous page
+   * @returns The connections with their timestamps and scope
    */
-  public async revokeTokens(userId: string): Promise<void> {
-    return this.tokenManager.revokeTokens(userId);
+  public async listConnections(options?: ListConnectionsOptions): Promise<ConnectionPage> {
+    return this.tokenManager.listConnections(options);
+  }
+
+  /**
+   * Gets when a user connected and last refreshed, and the granted scope
+   * @param userId The user ID
+   * @param tenantId The company; the default connection if omitted
+   * @returns The connection metadata or null if the user is not connected
+   */
+  public async getConnectionInfo(
+    userId: string,
+    tenantId?: string,
+  ): Promise<ConnectionInfo | null> {
+    return this.tokenManager.getConnectionInfo(userId, tenantId);
+  }
+
+  /**
+   * Lists the Fortnox companies a user has connected.
+   * Requires a token store that supports multiple companies per user.
+   * @param userId The user ID
+   * @returns The default connection, if any, followed by the other companies
+   */
+  public async getUserConnections(userId: string): Promise<ConnectionInfo[]> {
+    return this.tokenManager.getUserConnections(userId);
+  }
+
+  /**
+   * Gets the Fortnox company behind a connection, as collected on connect
+   * @param userId The user ID
+   * @param tenantId The company; the default connection if omitted
+   * @returns The tenant and company details, or null if not collected
+   */
+  public async getConnectionMetadata(
+    userId: string,
+    tenantId?: string,
+  ): Promise<ConnectionMetadata | null> {
+    const connection = await this.tokenManager.getConnectionInfo(userId, tenantId);
+    return connection?.metadata || null;
+  }
+
+  /**
+   * Collects the tenant and company details of a connection again
+   * @param userId The user ID
+   * @param tenantId The company; the default connection if omitted
+   * @returns The updated metadata
+   */
+  public async refreshConnectionMetadata(
+    userId: string,
+    tenantId?: string,
+  ): Promise<ConnectionMetadata> {
+    return this.connectionMetadataService.collect(userId, tenantId);
+  }
+
+  /**
+   * Finds the connections to a Fortnox tenant
+   * @param tenantId The Fortnox tenant ID
+   * @returns The connections whose metadata has this tenant ID
+   */
+  public async findConnectionsByTenant(tenantId: string): Promise<ConnectionInfo[]> {
+    return this.tokenManager.findConnectionsByTenant(tenantId);
+  }
+
+  /**
+   * Finds other connections to the same Fortnox company as a user's connection
+   * @param userId The user ID
+   * @param tenantId The company; the default connection if omitted
+   * @returns The other connections to the same tenant
+   */
+  public async findDuplicateConnections(
+    userId: string,
+    tenantId?: string,
+  ): Promise<ConnectionInfo[]> {
+    return this.connectionMetadataService.findDuplicateConnections(userId, tenantId);
+  }
+
+  /**
+   * Creates a keep-alive service that refreshes connections before their refresh tokens expire.
+   * Requires a token store that supports listing connections.
+   * @param options Scheduling, concurrency and failure handling options
+   * @returns The keep-alive service; call `start()` to begin
+   */
+  public createTokenKeepAlive(options?: TokenKeepAliveOptions): TokenKeepAlive {
+    return new TokenKeepAlive(this.tokenManager, options);
+  }
+
+  /**
+   * Creates a stream of change events from the Fortnox WebSocket topics API
+   * for the tenants of the given connections
+   * @param options Users, topics, offset storage and reconnect options
+   * @returns The event stream; call `start()` to connect
+   */
+  public createEventStream(options: FortnoxEventStreamOptions): FortnoxEventStream {
+    return new FortnoxEventStream(this.tokenManager, this.clientSecret, {
+      logger: this.logger,
+      ...options,
+    });
   }
 
   /**
    * Gets a client for making authenticated requests to the Fortnox API
    * @param userId The ID of the user to make requests for
+   * @param tenantId The company to make requests for; the default connection if omitted
    * @returns An Axios instance configured for API requests
    */
-  public async getClient(userId: string): Promise<AxiosInstance> {
-    return this.apiClientFactory.createClient(userId);
+  public async getClient(userId: string, tenantId?: string): Promise<AxiosInstance> {
+    return this.apiClientFactory.createClient(userId, tenantId);
+  }
+
+  /**
+   * Iterates over all items of a Fortnox list endpoint, fetching pages lazily
+   * @param userId The ID of the user to make requests for
+   * @param path Path of the list endpoint, e.g. `/invoices`
+   * @param params Query parameters such as `limit`, `page` and `offset`
+   * @param options Concurrency and page limits
+   * @param tenantId The company to make requests for; the default connection if omitted
+   * @returns An async iterable of the items on every page
+   */
+  public paginate<T = Record<string, unknown>>(
+    userId: string,
+    path: string,
+    params: ListParams = {},
+    options: PaginateOptions = {},
+    tenantId?: string,
+  ): AsyncIterable<T> {
+    return paginate<T>(
+      () => this.apiClientFactory.createClient(userId, tenantId),
+      path,
+      params,
+      options
+    );
+  }
+
+  /**
+   * Gets typed resource clients for making requests on behalf of a user
+   * @param userId The ID of the user to make requests for
+   * @param tenantId The company to make requests for; the default connection if omitted
+   * @returns Resource clients for customers, invoices, articles, suppliers and orders
+   */
+  public forUser(userId: string, tenantId?: string): FortnoxUserClient {
+    return new FortnoxUserClient(this.apiClientFactory, userId, tenantId);
+  }
+
+  /**
+   * Collects company metadata after a user connects, if enabled.
+   * The connection is already stored, so a failure here is only logged and doesn't fail
+   * the connect; the metadata can be collected later with `refreshConnectionMetadata`.
+   */
+  private async collectMetadataOnConnect(userId: string, tenantId?: string): Promise<void> {
+    if (!this.collectConnectionMetadata) {
+      return;
+    }
+
+    try {
+      await this.connectionMetadataService.collect(userId, tenantId);
+    } catch (error) {
+      this.logger.warn('Failed to collect Fortnox company metadata', { userId, tenantId, error });
+    }
+  }
+
+  /**
+   * Reports the number of pending authorization states, if the state storage can count them
+   */
+  private recordStateStoreSize(): void {
+    if (this.stateStorage.size) {
+      this.metrics.setGauge(FORTNOX_METRICS.stateStoreSize, this.stateStorage.size());
+    }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,195 @@
+/**
+ * CLI Commands
+ *
+ * Implements the `fortnox-oauth` commands on top of FortnoxClient.
+ * Results are printed as JSON so they can be piped to other tools.
+ */
+
+import http from 'http';
+import { spawn } from 'child_process';
+import { Method } from 'axios';
+import { FortnoxClient } from '../FortnoxClient';
+import { TokenEncryption } from '../stores/TokenEncryption';
+import { toConnectionStatus } from '../routes/handlers';
+import { FortnoxAccountType, FortnoxTokens } from '../types';
+import { CliOptions } from './context';
+
+export interface ConnectOptions {
+  accountType?: FortnoxAccountType;
+  additionalCompany?: boolean;
+  open?: boolean; // Open the authorization URL in the default browser
+}
+
+const print = (value: unknown): void => {
+  console.log(JSON.stringify(value, null, 2));
+};
+
+/**
+ * Opens a URL in the default browser, ignoring failures
+ */
+const openBrowser = (url: string): void => {
+  // Not `cmd /c start` on Windows: cmd would split the URL at every `&`
+  const [command, ...args] =
+    process.platform === 'darwin'
+      ? ['open', url]
+      : process.platform === 'win32'
+        ? ['rundll32', 'url.dll,FileProtocolHandler', url]
+        : ['xdg-open', url];
+
+  const child = spawn(command, args, { stdio: 'ignore', detached: true });
+  child.on('error', () => undefined);
+  child.unref();
+};
+
+/**
+ * Serves the OAuth callback on the redirect URI until Fortnox redirects back once
+ * @returns The code and state of the callback
+ */
+const waitForCallback = (redirectUri: string): Promise<{ code: string; state: string }> => {
+  const { port, pathname } = new URL(redirectUri);
+
+  return new Promise((resolve, reject) => {
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', redirectUri);
+
+      if (url.pathname !== pathname) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const code = url.searchParams.get('code');
+      const state = url.searchParams.get('state');
+      const error = url.searchParams.get('error');
+
+      res.writeHead(code && state ? 200 : 400, { 'Content-Type': 'text/plain' });
+      res.end(
+        code && state
+          ? 'Fortnox authorization received. You can close this window.'
+          : 'Fortnox authorization failed. See the terminal for details.',
+      );
+      server.close();
+
+      if (code && state) {
+        resolve({ code, state });
+      } else {
+        reject(new Error(`Authorization failed: ${error || 'missing code or state'}`));
+      }
+    });
+
+    server.on('error', reject);
+    server.listen(Number(port) || 80);
+  });
+};
+
+/**
+ * Describes new tokens without exposing them
+ */
+const describeTokens = (tokens: FortnoxTokens) => {
+  const { connected, ...status } = toConnectionStatus(tokens);
+  return status;
+};
+
+/**
+ * Authorizes a user in the browser and stores the tokens
+ */
+export const connect = async (
+  client: FortnoxClient,
+  options: CliOptions,
+  connectOptions: ConnectOptions,
+): Promise<void> => {
+  const { authUrl } = client.generateAuthUrl(options.user, {
+    accountType: connectOptions.accountType,
+    additionalCompany: connectOptions.additionalCompany,
+  });
+
+  console.error(`Open this URL to authorize Fortnox:\n\n  ${authUrl}\n`);
+  console.error(`Waiting for the callback on ${options.redirectUri} ...`);
+  if (connectOptions.open !== false) {
+    openBrowser(authUrl);
+  }
+
+  const { code, state } = await waitForCallback(options.redirectUri);
+  const stateData = client.validateState(state);
+
+  if (!stateData) {
+    throw new Error('Invalid or expired state; run connect again');
+  }
+
+  const tokens = await client.exchangeCodeForTokens(
+    stateData.userId,
+    code,
+    stateData.codeVerifier,
+    stateData.accountType,
+    stateData.additionalCompany,
+  );
+
+  print({ userId: stateData.userId, ...describeTokens(tokens) });
+};
+
+/**
+ * Prints the connection of a user, without its tokens
+ */
+export const status = async (client: FortnoxClient, options: CliOptions): Promise<void> => {
+  const tokens = await client.getTokens(options.user, options.tenant);
+  const info = tokens ? await client.getConnectionInfo(options.user, options.tenant) : null;
+
+  print({
+    userId: options.user,
+    ...toConnectionStatus(tokens),
+    companyName: info?.metadata?.companyName,
+    organizationNumber: info?.metadata?.organizationNumber,
+    connectedAt: info?.createdAt,
+    lastRefreshedAt: info?.lastRefreshedAt,
+  });
+};
+
+/**
+ * Refreshes the tokens of a user and prints the new expiry
+ */
+export const refresh = async (client: FortnoxClient, options: CliOptions): Promise<void> => {
+  const tokens = await client.refreshTokens(options.user, options.tenant);
+  print({ userId: options.user, ...describeTokens(tokens) });
+};
+
+/**
+ * Revokes the tokens of a user at Fortnox and deletes them
+ * @param force Delete the tokens locally even if Fortnox rejects the revocation
+ */
+export const revoke = async (
+  client: FortnoxClient,
+  options: CliOptions,
+  force: boolean,
+): Promise<void> => {
+  await client.revokeTokens(options.user, { tenantId: options.tenant, deleteOnFailure: force });
+  print({ userId: options.user, tenantId: options.tenant, disconnected: true });
+};
+
+/**
+ * Prints a new hex-encoded key for FORTNOX_ENCRYPTION_KEY
+ */
+export const keygen = (): void => {
+  console.log(TokenEncryption.keyToString(TokenEncryption.generateKey()));
+};
+
+/**
+ * Makes an API request for a user and prints the response body
+ * @param method The HTTP method, e.g. GET
+ * @param path The path below the API base URL, e.g. /customers
+ * @param data JSON request body
+ */
+export const call = async (
+  client: FortnoxClient,
+  options: CliOptions,
+  method: string,
+  path: string,
+  data?: string,
+): Promise<void> => {
+  const api = await client.getClient(options.user, options.tenant);
+  const response = await api.request({
+    method: method.toUpperCase() as Method,
+    url: path,
+    data: data ? JSON.parse(data) : undefined,
+  });
+
+  print(response.data);
+};
@@ -0,0 +1,100 @@
+/**
+ * CLI Context
+ *
+ * Creates the FortnoxClient used by the CLI commands from the command line
+ * options and environment variables, with a file or Postgres token store.
+ */
+
+import { Pool } from 'pg';
+import { FortnoxClient } from '../FortnoxClient';
+import { FileStore } from '../stores/FileStore';
+import { PostgresStore } from '../stores/PostgresStore';
+import { SecureTokenStore } from '../stores/SecureTokenStore';
+import { TokenStore } from '../types';
+
+export const DEFAULT_REDIRECT_URI = 'http://localhost:4005/auth-redir';
+export const DEFAULT_TOKEN_FILE = '.fortnox-tokens.json';
+
+export interface CliOptions {
+  user: string;
+  tenant?: string;
+  store: 'file' | 'postgres';
+  file: string;
+  redirectUri: string;
+}
+
+export interface CliContext {
+  client: FortnoxClient;
+  close(): Promise<void>;
+}
+
+/**
+ * Reads a required environment variable
+ */
+export const requireEnv = (name: string): string => {
+  const value = process.env[name];
+
+  if (!value) {
+    throw new Error(`Missing environment variable ${name}`);
+  }
+  return value;
+};
+
+/**
+ * Opens the token store selected with `--store`, encrypted if FORTNOX_ENCRYPTION_KEY is set
+ */
+const openTokenStore = async (
+  options: CliOptions,
+): Promise<{ tokenStore: TokenStore; close(): Promise<void> }> => {
+  let baseStore: TokenStore;
+  let close = async () => undefined;
+
+  if (options.store === 'postgres') {
+    const pool = new Pool({ connectionString: requireEnv('DATABASE_URL') });
+    const postgresStore = new PostgresStore({ pool });
+
+    close = async () => {
+      await pool.end();
+    };
+    try {
+      await postgresStore.initialize();
+    } catch (error) {
+      await close();
+      throw error;
+    }
+    baseStore = postgresStore;
+  } else {
+    const fileStore = new FileStore({ filePath: options.file });
+    await fileStore.initialize();
+    baseStore = fileStore;
+  }
+
+  const encryptionKey = process.env.FORTNOX_ENCRYPTION_KEY;
+  const tokenStore = encryptionKey
+    ? new SecureTokenStore({ baseStore, encryptionKey, enforceEncryption: true })
+    : baseStore;
+
+  return { tokenStore, close };
+};
+
+/**
+ * Creates a FortnoxClient from FORTNOX_CLIENT_ID, FORTNOX_CLIENT_SECRET and FORTNOX_SCOPES
+ * @param options The parsed command line options
+ */
+export const createCliContext = async (options: CliOptions): Promise<CliContext> => {
+  const clientId = requireEnv('FORTNOX_CLIENT_ID');
+  const clientSecret = requireEnv('FORTNOX_CLIENT_SECRET');
+  const { tokenStore, close } = await openTokenStore(options);
+
+  const client = new FortnoxClient({
+    clientId,
+    clientSecret,
+    redirectUri: options.redirectUri,
+    scopes: (process.env.FORTNOX_SCOPES || '').split(' ').filter(Boolean),
+    tokenStore,
+    authBaseUrl: process.env.FORTNOX_AUTH_BASE_URL,
+    apiBaseUrl: process.env.FORTNOX_API_BASE_URL,
+  });
+
+  return { client, close };
+};
@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+/**
+ * Fortnox OAuth CLI
+ *
+ * Connects users and inspects, refreshes and revokes their tokens
+ * without writing throwaway scripts. Run `fortnox-oauth help` for usage.
+ */
+
+import { parseArgs } from 'util';
+import { FortnoxError } from '../errors';
+import { call, connect, keygen, refresh, revoke, status } from './commands';
+import {
+  CliContext,
+  CliOptions,
+  createCliContext,
+  DEFAULT_REDIRECT_URI,
+  DEFAULT_TOKEN_FILE,
+} from './context';
+
+const USAGE = `Usage: fortnox-oauth <command> [options]
+
+Commands:
+  connect                  Authorize a user in the browser and store the tokens
+  status                   Show a user's connection
+  refresh                  Refresh a user's tokens
+  revoke                   Revoke a user's tokens and delete them
+  keygen                   Generate a key for FORTNOX_ENCRYPTION_KEY
+  call <method> <path>     Make an API request, e.g. call GET /customers
+
+Options:
+  --user <id>              User ID (default: cli-user)
+  --tenant <id>            Company, for users with several companies
+  --store <file|postgres>  Token store (default: file)
+  --file <path>            Token file of the file store (default: ${DEFAULT_TOKEN_FILE})
+  --redirect-uri <uri>     Callback URL registered at Fortnox (default: ${DEFAULT_REDIRECT_URI})
+  --service                connect: authorize a service account
+  --additional-company     connect: connect another company instead of replacing the default
+  --no-open                connect: print the authorization URL without opening a browser
+  --data <json>            call: request body
+  --force                  revoke: delete the tokens even if Fortnox rejects the revocation
+
+Environment:
+  FORTNOX_CLIENT_ID        Required by all commands except keygen
+  FORTNOX_CLIENT_SECRET    Required by all commands except keygen
+  FORTNOX_SCOPES           Space-separated scopes requested by connect
+  FORTNOX_REDIRECT_URI     Default for --redirect-uri
+  FORTNOX_AUTH_BASE_URL    OAuth base URL, e.g. of a MockFortnoxServer
+  FORTNOX_API_BASE_URL     API base URL
+  DATABASE_URL             Postgres connection string for --store postgres
+  FORTNOX_ENCRYPTION_KEY   Encrypts stored tokens with SecureTokenStore
+`;
+
+const main = async (argv: string[]): Promise<void> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      user: { type: 'string', default: 'cli-user' },
+      tenant: { type: 'string' },
+      store: { type: 'string', default: 'file' },
+      file: { type: 'string', default: DEFAULT_TOKEN_FILE },
+      'redirect-uri': { type: 'string' },
+      service: { type: 'boolean', default: false },
+      'additional-company': { type: 'boolean', default: false },
+      'no-open': { type: 'boolean', default: false },
+      data: { type: 'string' },
+      force: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command, ...args] = positionals;
+
+  if (!command || command === 'help' || values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (command === 'keygen') {
+    keygen();
+    return;
+  }
+
+  if (values.store !== 'file' && values.store !== 'postgres') {
+    throw new Error(`Unknown store "${values.store}"; use file or postgres`);
+  }
+
+  const options: CliOptions = {
+    user: values.user as string,
+    tenant: values.tenant,
+    store: values.store,
+    file: values.file as string,
+    redirectUri: values['redirect-uri'] || process.env.FORTNOX_REDIRECT_URI || DEFAULT_REDIRECT_URI,
+  };
+
+  const commands: Record<string, (context: CliContext) => Promise<void>> = {
+    connect: ({ client }) =>
+      connect(client, options, {
+        accountType: values.service ? 'service' : undefined,
+        additionalCompany: values['additional-company'],
+        open: !values['no-open'],
+      }),
+    status: ({ client }) => status(client, options),
+    refresh: ({ client }) => refresh(client, options),
+    revoke: ({ client }) => revoke(client, options, Boolean(values.force)),
+    call: ({ client }) => {
+      const [method, path] = args;
+
+      if (!method || !path) {
+        throw new Error('Usage: fortnox-oauth call <method> <path>');
+      }
+      return call(client, options, method, path, values.data);
+    },
+  };
+
+  const run = commands[command];
+
+  if (!run) {
+    throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+
+  const context = await createCliContext(options);
+
+  try {
+    await run(context);
+  } finally {
+    await context.close();
+  }
+};
+
+main(process.argv.slice(2))
+  .then(() => process.exit(0))
+  .catch((error: Error) => {
+    const details = error instanceof FortnoxError ? ` (${error.kind}, ${error.code})` : '';
+    console.error(`Error: ${error.message}${details}`);
+    process.exit(1);
+  });
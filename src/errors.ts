@@ -0,0 +1,288 @@
+/**
+ * Fortnox Errors
+ *
+ * Typed errors thrown by the SDK. Every error carries the HTTP status, the
+ * Fortnox error code, the raw response body and the user ID when known, plus
+ * a stable `kind` that callers can branch on instead of parsing messages.
+ */
+
+import { AxiosError } from 'axios';
+import { parseRetryAfter } from './utils/delay';
+
+/**
+ * Stable categories for Fortnox errors
+ */
+export type FortnoxErrorKind =
+  | 'authentication'
+  | 'invalid_grant'
+  | 'scope'
+  | 'license'
+  | 'not_found'
+  | 'validation'
+  | 'rate_limit'
+  | 'server'
+  | 'unknown';
+
+/**
+ * Fortnox error codes mapped to their kinds
+ */
+export type FortnoxErrorCodes = Readonly<Record<number, FortnoxErrorKind>>;
+
+/**
+ * Known Fortnox `ErrorInformation.code` values and their kinds. Frozen; add codes
+ * your integration relies on with the `errorCodes` API client option.
+ */
+export const FORTNOX_ERROR_CODES: FortnoxErrorCodes = Object.freeze({
+  2000106: 'validation', // Value must be alphanumeric
+  2000108: 'validation', // Value must be numeric
+  2000134: 'validation', // Value must be a boolean
+  2000310: 'authentication', // Invalid credentials
+  2000311: 'authentication', // Access token or client secret missing
+  2000663: 'scope', // No access to the requested scope
+});
+
+// Fortnox describes a missing license in Swedish ("licens") or English ("license")
+const LICENSE_MESSAGE_PATTERN = /licen[cs]/i;
+
+/**
+ * Resolves the kind of an error from its Fortnox code, falling back to the
+ * error message for license errors and then to the HTTP status
+ * @param code The Fortnox error code, if any
+ * @param status The HTTP status, if any
+ * @param codes The error code catalog, defaults to FORTNOX_ERROR_CODES
+ * @param message The Fortnox error message, if any
+ */
+export const getFortnoxErrorKind = (
+  code?: number | string,
+  status?: number,
+  codes: FortnoxErrorCodes = FORTNOX_ERROR_CODES,
+  message?: string,
+): FortnoxErrorKind => {
+  const knownKind = code !== undefined ? codes[Number(code)] : undefined;
+
+  if (knownKind) {
+    return knownKind;
+  }
+
+  if (message && LICENSE_MESSAGE_PATTERN.test(message)) {
+    return 'license';
+  }
+
+  switch (status) {
+    case 400:
+      return 'validation';
+    case 401:
+      return 'authentication';
+    case 403:
+      return 'scope';
+    case 404:
+      return 'not_found';
+    case 429:
+      return 'rate_limit';
+    default:
+      return status && status >= 500 ? 'server' : 'unknown';
+  }
+};
+
+export interface FortnoxErrorDetails {
+  status?: number;
+  code?: number | string;
+  body?: unknown;
+  userId?: string;
+  kind?: FortnoxErrorKind;
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by the SDK
+ */
+export class FortnoxError extends Error {
+  public readonly kind: FortnoxErrorKind;
+  public readonly status?: number;
+  public readonly code?: number | string;
+  public readonly body?: unknown;
+  public readonly userId?: string;
+  public readonly cause?: unknown;
+
+  constructor(message: string, details: FortnoxErrorDetails = {}) {
+    super(message);
+    this.name = 'FortnoxError';
+    this.kind = details.kind || getFortnoxErrorKind(details.code, details.status);
+    this.status = details.status;
+    this.code = details.code;
+    this.body = details.body;
+    this.userId = details.userId;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * An error response from the Fortnox REST API
+ */
+export class FortnoxApiError extends FortnoxError {
+  constructor(message: string, details: FortnoxErrorDetails = {}) {
+    super(message, details);
+    this.name = 'FortnoxApiError';
+  }
+}
+
+/**
+ * The request was rejected with 429 Too Many Requests, even after retrying
+ */
+export class RateLimitError extends FortnoxApiError {
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, details: FortnoxErrorDetails & { retryAfterMs?: number } = {}) {
+    super(message, { ...details, kind: 'rate_limit' });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/**
+ * The connection lacks a scope required by the request
+ */
+export class ScopeError extends FortnoxApiError {
+  constructor(message: string, details: FortnoxErrorDetails = {}) {
+    super(message, { ...details, kind: 'scope' });
+    this.name = 'ScopeError';
+  }
+}
+
+/**
+ * The Fortnox company lacks a license required by the request
+ */
+export class LicenseError extends FortnoxApiError {
+  constructor(message: string, details: FortnoxErrorDetails = {}) {
+    super(message, { ...details, kind: 'license' });
+    this.name = 'LicenseError';
+  }
+}
+
+/**
+ * An error from the OAuth flow or token handling
+ */
+export class FortnoxAuthError extends FortnoxError {
+  constructor(message: string, details: FortnoxErrorDetails = {}) {
+    super(message, { kind: 'authentication', ...details });
+    this.name = 'FortnoxAuthError';
+  }
+}
+
+/**
+ * The authorization code or refresh token is invalid, expired or already used.
+ * The user has to connect again.
+ */
+export class InvalidGrantError extends FortnoxAuthError {
+  constructor(message: string, details: FortnoxErrorDetails = {}) {
+    super(message, { ...details, kind: 'invalid_grant' });
+    this.name = 'InvalidGrantError';
+  }
+}
+
+/**
+ * Revoking a connection failed partway. `remoteRevoked` and `localDeleted`
+ * tell which steps completed. If both steps failed, `cause` is the error
+ * deleting the tokens and `remoteError` the error revoking them at Fortnox.
+ */
+export class TokenRevocationError extends FortnoxAuthError {
+  public readonly remoteRevoked: boolean;
+  public readonly localDeleted: boolean;
+  public readonly remoteError?: unknown; // Set if revoking at Fortnox failed
+
+  constructor(
+    message: string,
+    details: FortnoxErrorDetails & {
+      remoteRevoked: boolean;
+      localDeleted: boolean;
+      remoteError?: unknown;
+    },
+  ) {
+    super(message, details);
+    this.name = 'TokenRevocationError';
+    this.remoteRevoked = details.remoteRevoked;
+    this.localDeleted = details.localDeleted;
+    this.remoteError = details.remoteError;
+  }
+}
+
+/**
+ * The stored tokens changed since they were read, e.g. because another process
+ * refreshed them. Thrown by `updateTokens` when `expectedVersion` doesn't match.
+ */
+export class TokenVersionConflictError extends FortnoxAuthError {
+  public readonly expectedVersion: number;
+
+  constructor(message: string, details: FortnoxErrorDetails & { expectedVersion: number }) {
+    super(message, { code: 'version_conflict', ...details });
+    this.name = 'TokenVersionConflictError';
+    this.expectedVersion = details.expectedVersion;
+  }
+}
+
+/**
+ * Creates a typed error from a failed Fortnox API request
+ * @param error The Axios error
+ * @param userId The user the request was made for
+ * @param codes The error code catalog, defaults to FORTNOX_ERROR_CODES
+ */
+export const toFortnoxApiError = (
+  error: AxiosError,
+  userId?: string,
+  codes: FortnoxErrorCodes = FORTNOX_ERROR_CODES,
+): FortnoxApiError => {
+  const status = error.response?.status;
+  const body = error.response?.data as any;
+  const code = body?.ErrorInformation?.code ?? body?.ErrorInformation?.Code ?? body?.error;
+
+  let message = error.message;
+  if (body?.error_description) {
+    message = `API Error (${body.error}): ${body.error_description}`;
+  } else if (body?.ErrorInformation?.message) {
+    message = `API Error: ${body.ErrorInformation.message}`;
+  }
+
+  const details = { status, code, body, userId, cause: error };
+  const kind = getFortnoxErrorKind(code, status, codes, body?.ErrorInformation?.message);
+
+  if (kind === 'rate_limit') {
+    return new RateLimitError(message, {
+      ...details,
+      retryAfterMs: parseRetryAfter(error.response?.headers?.['retry-after']),
+    });
+  }
+
+  if (kind === 'scope') {
+    return new ScopeError(message, details);
+  }
+
+  if (kind === 'license') {
+    return new LicenseError(message, details);
+  }
+
+  return new FortnoxApiError(message, { ...details, kind });
+};
+
+/**
+ * Creates a typed error from a failed request to the Fortnox token endpoints
+ * @param prefix Describes the failed operation, e.g. `Failed to refresh token`
+ * @param error The Axios error
+ * @param userId The user the request was made for
+ */
+export const toFortnoxAuthError = (
+  prefix: string,
+  error: AxiosError,
+  userId?: string,
+): FortnoxAuthError => {
+  const status = error.response?.status;
+  const body = error.response?.data as any;
+  const code = body?.error;
+  const message = `${prefix}: ${body?.error_description || error.message}`;
+  const details = { status, code, body, userId, cause: error };
+
+  if (code === 'invalid_grant') {
+    return new InvalidGrantError(message, details);
+  }
+
+  return new FortnoxAuthError(message, details);
+};
@@ -4,21 +4,86 @@ export { FortnoxClient } from './FortnoxClient';
 // Export token stores
 export { InMemoryStore } from './stores/InMemoryStore';
 export { PostgresStore } from './stores/PostgresStore';
+export { FileStore } from './stores/FileStore';
+export type { FileStoreConfig } from './stores/FileStore';
+export { PostgresAdvisoryLock } from './stores/PostgresAdvisoryLock';
+export type { PostgresAdvisoryLockConfig } from './stores/PostgresAdvisoryLock';
 export { SecureTokenStore } from './stores/SecureTokenStore';
+export type {
+  SecureTokenStoreOptions,
+  PlaintextMigrationPolicy,
+  ReencryptionOptions,
+  ReencryptionReport,
+} from './stores/SecureTokenStore';
 export { TokenEncryption } from './stores/TokenEncryption';
+export type { TokenEncryptionOptions } from './stores/TokenEncryption';
+export { LocalKeyProvider } from './stores/KeyProvider';
+export type { KeyProvider, LocalKeyProviderOptions } from './stores/KeyProvider';
+
+// Export framework-neutral auth handlers
+export { createFortnoxAuthHandlers, createFortnoxAuthRoutes } from './routes/handlers';
+export type {
+  FortnoxAuthHandlerOptions,
+  FortnoxAuthHandlers,
+  FortnoxAuthRequest,
+  FortnoxAuthResult,
+  FortnoxAuthRoute,
+  FortnoxAuthRoutePaths,
+  FortnoxAuthRouterAction,
+  FortnoxConnectionStatus,
+  FortnoxSessionData,
+} from './routes/handlers';
 
 // Export Express router
 export { createFortnoxAuthRouter } from './routes/fortnoxAuth';
 export type { FortnoxAuthRouterOptions } from './routes/fortnoxAuth';
 
+// Export Express metrics handler
+export { createMetricsHandler } from './routes/metrics';
+
+// Export Fastify, Koa and Fetch adapters
+export { createFortnoxAuthPlugin } from './routes/fastify';
+export type {
+  FortnoxFastifyOptions,
+  FastifyInstanceLike,
+  FastifyReplyLike,
+  FastifyRequestLike,
+} from './routes/fastify';
+export { createFortnoxAuthMiddleware } from './routes/koa';
+export type { FortnoxKoaOptions, KoaContextLike } from './routes/koa';
+export { createFortnoxAuthFetchHandler } from './routes/fetch';
+export type { FortnoxFetchOptions } from './routes/fetch';
+
 // Export utility functions
 export * from './utils/PKCE';
 
+// Export pagination utilities
+export * from './utils/pagination';
+
+// Export logging utilities
+export * from './utils/logger';
+
+// Export metrics and tracing utilities
+export * from './utils/metrics';
+export * from './utils/tracing';
+
+// Export connection utilities
+export * from './utils/connection';
+
+// Export multipart utilities
+export * from './utils/multipart';
+
 // Export state storage utilities
 export * from './utils/stateStorage';
 
 // Export service classes
 export * from './services';
 
+// Export typed resource clients and models
+export * from './resources';
+
+// Export error classes
+export * from './errors';
+
 // Export types
 export * from './types'; 
\ No newline at end of file
@@ -0,0 +1,171 @@
+/**
+ * Files Client
+ *
+ * Uploads and downloads files in the Fortnox archive and inbox, and connects
+ * them to supplier invoices and vouchers. Uploads are streamed as multipart
+ * bodies; downloads are returned as buffers or streams.
+ */
+
+import { Readable } from 'stream';
+import { FortnoxRequestConfig } from '../services/ApiClientFactory';
+import { createMultipartBody, FileSource } from '../utils/multipart';
+import { ClientProvider } from './ResourceClient';
+import { ArchiveFile, SupplierInvoiceFileConnection, VoucherFileConnection } from './models';
+
+/**
+ * Inbox folders for documents waiting to be booked
+ */
+export type InboxFolder = 'inbox_s' | 'inbox_v' | string; // Supplier invoices, vouchers
+
+/**
+ * Where a file is stored
+ */
+export type FileLocation = 'archive' | 'inbox';
+
+/**
+ * A file to upload
+ */
+export interface FileUpload {
+  filename: string;
+  data: FileSource;
+  contentType?: string;
+}
+
+export class FilesClient {
+  private getClient: ClientProvider;
+
+  constructor(getClient: ClientProvider) {
+    this.getClient = getClient;
+  }
+
+  /**
+   * Uploads a file to an inbox folder
+   * @param file The file name and contents
+   * @param folder The inbox folder, `inbox_s` for supplier invoices or `inbox_v` for vouchers
+   * @returns The uploaded file
+   */
+  public async uploadToInbox(
+    file: FileUpload,
+    folder: InboxFolder = 'inbox_s',
+  ): Promise<ArchiveFile> {
+    return this.upload('/inbox', file, { path: folder });
+  }
+
+  /**
+   * Uploads a file to the archive
+   * @param file The file name and contents
+   * @param path Archive folder, defaults to the root folder
+   * @returns The uploaded file
+   */
+  public async uploadToArchive(file: FileUpload, path?: string): Promise<ArchiveFile> {
+    return this.upload('/archive', file, path ? { path } : {});
+  }
+
+  /**
+   * Downloads a file into memory
+   * @param fileId The file ID
+   * @param location Whether the file is in the archive or the inbox
+   * @returns The file contents
+   */
+  public async download(fileId: string, location: FileLocation = 'archive'): Promise<Buffer> {
+    const client = await this.getClient();
+    const response = await client.get(this.filePath(fileId, location), {
+      headers: { Accept: '*/*' },
+      responseType: 'arraybuffer',
+    });
+
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Downloads a file as a stream, for large files
+   * @param fileId The file ID
+   * @param location Whether the file is in the archive or the inbox
+   * @returns A stream of the file contents
+   */
+  public async downloadStream(
+    fileId: string,
+    location: FileLocation = 'archive',
+  ): Promise<Readable> {
+    const client = await this.getClient();
+    const response = await client.get(this.filePath(fileId, location), {
+      headers: { Accept: '*/*' },
+      responseType: 'stream',
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Connects an uploaded file to a supplier invoice
+   * @param fileId The file ID
+   * @param supplierInvoiceNumber The supplier invoice's given number
+   * @returns The created connection
+   */
+  public async attachToSupplierInvoice(
+    fileId: string,
+    supplierInvoiceNumber: string | number,
+  ): Promise<SupplierInvoiceFileConnection> {
+    const client = await this.getClient();
+    const response = await client.post('/supplierinvoicefileconnections', {
+      SupplierInvoiceFileConnection: {
+        FileId: fileId,
+        SupplierInvoiceNumber: String(supplierInvoiceNumber),
+      },
+    });
+
+    return response.data.SupplierInvoiceFileConnection;
+  }
+
+  /**
+   * Connects an uploaded file to a voucher
+   * @param fileId The file ID
+   * @param voucher The voucher's series, number and financial year
+   * @returns The created connection
+   */
+  public async attachToVoucher(
+    fileId: string,
+    voucher: { VoucherSeries: string; VoucherNumber: string | number; VoucherYear?: number },
+  ): Promise<VoucherFileConnection> {
+    const client = await this.getClient();
+    const response = await client.post('/voucherfileconnections', {
+      VoucherFileConnection: {
+        FileId: fileId,
+        VoucherSeries: voucher.VoucherSeries,
+        VoucherNumber: String(voucher.VoucherNumber),
+        VoucherYear: voucher.VoucherYear,
+      },
+    });
+
+    return response.data.VoucherFileConnection;
+  }
+
+  /**
+   * Streams a file as a multipart upload
+   */
+  private async upload(
+    path: string,
+    file: FileUpload,
+    params: Record<string, string>,
+  ): Promise<ArchiveFile> {
+    const client = await this.getClient();
+    const body = createMultipartBody([{ name: 'file', ...file }]);
+
+    // A new body stream for every attempt, so a retried upload is complete
+    const config: FortnoxRequestConfig = {
+      params,
+      headers: { 'Content-Type': body.contentType },
+      createData: body.createStream,
+    };
+
+    const response = await client.post(path, undefined, config);
+    return response.data.File;
+  }
+
+  /**
+   * Builds the path for a single file
+   */
+  private filePath(fileId: string, location: FileLocation): string {
+    return `/${location}/${encodeURIComponent(fileId)}`;
+  }
+}
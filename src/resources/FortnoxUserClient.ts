@@ -0,0 +1,92 @@
+/**
+ * Fortnox User Client
+ *
+ * Typed access to the core Fortnox resources on behalf of a single user.
+ * Every request goes through ApiClientFactory, so tokens are refreshed
+ * automatically.
+ */
+
+import { ApiClientFactory } from '../services/ApiClientFactory';
+import { ClientProvider, ResourceClient } from './ResourceClient';
+import { InvoicesClient } from './InvoicesClient';
+import { FilesClient } from './FilesClient';
+import {
+  Article,
+  ArticleCreate,
+  ArticleListItem,
+  ArticleUpdate,
+  Customer,
+  CustomerCreate,
+  CustomerListItem,
+  CustomerUpdate,
+  Order,
+  OrderCreate,
+  OrderListItem,
+  OrderUpdate,
+  Supplier,
+  SupplierCreate,
+  SupplierListItem,
+  SupplierUpdate,
+} from './models';
+
+export type CustomersClient = ResourceClient<
+  Customer,
+  CustomerListItem,
+  CustomerCreate,
+  CustomerUpdate
+>;
+export type ArticlesClient = ResourceClient<Article, ArticleListItem, ArticleCreate, ArticleUpdate>;
+export type SuppliersClient = ResourceClient<
+  Supplier,
+  SupplierListItem,
+  SupplierCreate,
+  SupplierUpdate
+>;
+export type OrdersClient = ResourceClient<Order, OrderListItem, OrderCreate, OrderUpdate>;
+
+export class FortnoxUserClient {
+  public readonly userId: string;
+  public readonly tenantId?: string;
+  public readonly customers: CustomersClient;
+  public readonly invoices: InvoicesClient;
+  public readonly articles: ArticlesClient;
+  public readonly suppliers: SuppliersClient;
+  public readonly orders: OrdersClient;
+  public readonly files: FilesClient;
+
+  /**
+   * Create a new FortnoxUserClient
+   * @param apiClientFactory Factory used to create authenticated clients
+   * @param userId The ID of the user to make requests for
+   * @param tenantId The company to make requests for; the default connection if omitted
+   */
+  constructor(apiClientFactory: ApiClientFactory, userId: string, tenantId?: string) {
+    this.userId = userId;
+    this.tenantId = tenantId;
+
+    const getClient: ClientProvider = () => apiClientFactory.createClient(userId, tenantId);
+
+    this.customers = new ResourceClient(getClient, {
+      path: '/customers',
+      collectionKey: 'Customers',
+      entityKey: 'Customer',
+    });
+    this.invoices = new InvoicesClient(getClient);
+    this.articles = new ResourceClient(getClient, {
+      path: '/articles',
+      collectionKey: 'Articles',
+      entityKey: 'Article',
+    });
+    this.suppliers = new ResourceClient(getClient, {
+      path: '/suppliers',
+      collectionKey: 'Suppliers',
+      entityKey: 'Supplier',
+    });
+    this.orders = new ResourceClient(getClient, {
+      path: '/orders',
+      collectionKey: 'Orders',
+      entityKey: 'Order',
+    });
+    this.files = new FilesClient(getClient);
+  }
+}
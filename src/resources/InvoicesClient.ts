@@ -0,0 +1,81 @@
+/**
+ * Invoices Client
+ *
+ * CRUD access to customer invoices, plus PDF downloads.
+ */
+
+import { Readable } from 'stream';
+import { ClientProvider, ResourceClient } from './ResourceClient';
+import { Invoice, InvoiceCreate, InvoiceListItem, InvoiceUpdate } from './models';
+
+/**
+ * Options for invoice PDF downloads
+ */
+export interface InvoicePdfOptions {
+  /**
+   * Use the print endpoint, which marks the invoice as printed.
+   * By default the preview endpoint is used, which leaves the invoice unchanged.
+   * @default false
+   */
+  markAsPrinted?: boolean;
+}
+
+export class InvoicesClient extends ResourceClient<
+  Invoice,
+  InvoiceListItem,
+  InvoiceCreate,
+  InvoiceUpdate
+> {
+  constructor(getClient: ClientProvider) {
+    super(getClient, {
+      path: '/invoices',
+      collectionKey: 'Invoices',
+      entityKey: 'Invoice',
+    });
+  }
+
+  /**
+   * Downloads an invoice as a PDF
+   * @param documentNumber The invoice number
+   * @param options Whether to mark the invoice as printed
+   * @returns The PDF contents
+   */
+  public async getPdf(
+    documentNumber: string | number,
+    options: InvoicePdfOptions = {},
+  ): Promise<Buffer> {
+    const client = await this.getClient();
+    const response = await client.get(this.pdfPath(documentNumber, options), {
+      headers: { Accept: 'application/pdf' },
+      responseType: 'arraybuffer',
+    });
+
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Downloads an invoice as a PDF stream
+   * @param documentNumber The invoice number
+   * @param options Whether to mark the invoice as printed
+   * @returns A stream of the PDF contents
+   */
+  public async getPdfStream(
+    documentNumber: string | number,
+    options: InvoicePdfOptions = {},
+  ): Promise<Readable> {
+    const client = await this.getClient();
+    const response = await client.get(this.pdfPath(documentNumber, options), {
+      headers: { Accept: 'application/pdf' },
+      responseType: 'stream',
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Builds the path of the preview or print endpoint
+   */
+  private pdfPath(documentNumber: string | number, options: InvoicePdfOptions): string {
+    return `${this.entityPath(documentNumber)}/${options.markAsPrinted ? 'print' : 'preview'}`;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Resource Client
+ *
+ * Generic CRUD client for a single Fortnox resource. Handles the Fortnox
+ * envelope format (`{ Customers: [...] }` for lists, `{ Customer: {...} }`
+ * for single entities) so callers work with plain models.
+ */
+
+import { AxiosInstance } from 'axios';
+import { paginate, PaginateOptions } from '../utils/pagination';
+import { ListParams, ListResult, MetaInformation } from './models';
+
+/**
+ * Returns an authenticated Axios instance for the current user
+ */
+export type ClientProvider = () => Promise<AxiosInstance>;
+
+/**
+ * Describes where a resource lives and how its envelopes are keyed
+ */
+export interface ResourceDefinition {
+  /**
+   * Path of the resource relative to the API base URL, e.g. `/customers`
+   */
+  path: string;
+
+  /**
+   * Envelope key used by list responses, e.g. `Customers`
+   */
+  collectionKey: string;
+
+  /**
+   * Envelope key used by single-entity requests and responses, e.g. `Customer`
+   */
+  entityKey: string;
+}
+
+export class ResourceClient<TEntity, TListItem, TCreate, TUpdate> {
+  protected getClient: ClientProvider;
+  protected definition: ResourceDefinition;
+
+  constructor(getClient: ClientProvider, definition: ResourceDefinition) {
+    this.getClient = getClient;
+    this.definition = definition;
+  }
+
+  /**
+   * Lists a single page of the resource
+   * @param params Query parameters such as `page`, `limit` or `filter`
+   * @returns The items on the page and the paging information
+   */
+  public async list(params: ListParams = {}): Promise<ListResult<TListItem>> {
+    const client = await this.getClient();
+    const response = await client.get(this.definition.path, { params });
+
+    return {
+      items: response.data[this.definition.collectionKey] || [],
+      meta: response.data.MetaInformation as MetaInformation | undefined,
+    };
+  }
+
+  /**
+   * Iterates over every item of the resource, fetching pages lazily
+   * @param params Query parameters; `page` sets the first page to fetch
+   * @param options Concurrency and page limits
+   * @returns An async iterable of list items
+   */
+  public listAll(params: ListParams = {}, options: PaginateOptions = {}): AsyncIterable<TListItem> {
+    return paginate<TListItem>(this.getClient, this.definition.path, params, {
+      collectionKey: this.definition.collectionKey,
+      ...options,
+    });
+  }
+
+  /**
+   * Retrieves a single entity
+   * @param id The entity identifier, e.g. a customer or document number
+   * @returns The entity
+   */
+  public async get(id: string | number): Promise<TEntity> {
+    const client = await this.getClient();
+    const response = await client.get(this.entityPath(id));
+
+    return response.data[this.definition.entityKey];
+  }
+
+  /**
+   * Creates a new entity
+   * @param data The entity fields
+   * @returns The created entity as returned by Fortnox
+   */
+  public async create(data: TCreate): Promise<TEntity> {
+    const client = await this.getClient();
+    const response = await client.post(this.definition.path, {
+      [this.definition.entityKey]: data,
+    });
+
+    return response.data[this.definition.entityKey];
+  }
+
+  /**
+   * Updates an existing entity
+   * @param id The entity identifier
+   * @param data The fields to update
+   * @returns The updated entity as returned by Fortnox
+   */
+  public async update(id: string | number, data: TUpdate): Promise<TEntity> {
+    const client = await this.getClient();
+    const response = await client.put(this.entityPath(id), {
+      [this.definition.entityKey]: data,
+    });
+
+    return response.data[this.definition.entityKey];
+  }
+
+  /**
+   * Builds the path for a single entity
+   */
+  protected entityPath(id: string | number): string {
+    return `${this.definition.path}/${encodeURIComponent(String(id))}`;
+  }
+}
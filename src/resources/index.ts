@@ -0,0 +1,20 @@
+/**
+ * Resources index file
+ *
+ * Exports the typed resource clients and models for the Fortnox API
+ */
+
+export { FortnoxUserClient } from './FortnoxUserClient';
+export type {
+  CustomersClient,
+  ArticlesClient,
+  SuppliersClient,
+  OrdersClient,
+} from './FortnoxUserClient';
+export { InvoicesClient } from './InvoicesClient';
+export type { InvoicePdfOptions } from './InvoicesClient';
+export { FilesClient } from './FilesClient';
+export type { FileUpload, FileLocation, InboxFolder } from './FilesClient';
+export { ResourceClient } from './ResourceClient';
+export type { ClientProvider, ResourceDefinition } from './ResourceClient';
+export * from './models';
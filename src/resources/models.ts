@@ -0,0 +1,312 @@
+/**
+ * Fortnox API Models
+ *
+ * TypeScript models for the request and response bodies of the core
+ * Fortnox resources. Field names follow the Fortnox API (PascalCase).
+ *
+ * @see https://api.fortnox.se/apidocs
+ */
+
+/**
+ * Paging information returned by Fortnox list endpoints
+ */
+export interface MetaInformation {
+  '@TotalResources': number;
+  '@TotalPages': number;
+  '@CurrentPage': number;
+}
+
+/**
+ * Common query parameters for Fortnox list endpoints
+ */
+export interface ListParams {
+  page?: number;
+  limit?: number;
+  offset?: number;
+  sortby?: string;
+  sortorder?: 'ascending' | 'descending';
+  filter?: string;
+  lastmodified?: string;
+  [key: string]: string | number | boolean | undefined;
+}
+
+/**
+ * A single page of results from a list endpoint
+ */
+export interface ListResult<T> {
+  items: T[];
+  meta?: MetaInformation;
+}
+
+// Customers
+
+export interface Customer {
+  '@url'?: string;
+  CustomerNumber: string;
+  Name: string;
+  Type?: 'PRIVATE' | 'COMPANY';
+  OrganisationNumber?: string;
+  VATNumber?: string;
+  VATType?: string;
+  Active?: boolean;
+  Address1?: string;
+  Address2?: string;
+  ZipCode?: string;
+  City?: string;
+  Country?: string;
+  CountryCode?: string;
+  Currency?: string;
+  Email?: string;
+  EmailInvoice?: string;
+  Phone1?: string;
+  Phone2?: string;
+  Fax?: string;
+  WWW?: string;
+  OurReference?: string;
+  YourReference?: string;
+  PriceList?: string;
+  TermsOfPayment?: string;
+  Comments?: string;
+}
+
+export interface CustomerListItem {
+  '@url'?: string;
+  CustomerNumber: string;
+  Name: string;
+  OrganisationNumber?: string;
+  Address1?: string;
+  Address2?: string;
+  ZipCode?: string;
+  City?: string;
+  Email?: string;
+  Phone?: string;
+}
+
+export type CustomerCreate = Partial<Omit<Customer, '@url'>> & Pick<Customer, 'Name'>;
+export type CustomerUpdate = Partial<Omit<Customer, '@url' | 'CustomerNumber'>>;
+
+// Invoices
+
+export interface InvoiceRow {
+  ArticleNumber?: string;
+  Description?: string;
+  DeliveredQuantity?: number;
+  Price?: number;
+  Discount?: number;
+  VAT?: number;
+  Unit?: string;
+  AccountNumber?: number;
+}
+
+export interface Invoice {
+  '@url'?: string;
+  DocumentNumber: string;
+  CustomerNumber: string;
+  CustomerName?: string;
+  InvoiceType?: string;
+  InvoiceDate?: string;
+  DueDate?: string;
+  Currency?: string;
+  Total?: number;
+  TotalVAT?: number;
+  Balance?: number;
+  Booked?: boolean;
+  Cancelled?: boolean;
+  Sent?: boolean;
+  OCR?: string;
+  OurReference?: string;
+  YourReference?: string;
+  TermsOfPayment?: string;
+  Remarks?: string;
+  Comments?: string;
+  InvoiceRows?: InvoiceRow[];
+}
+
+export interface InvoiceListItem {
+  '@url'?: string;
+  DocumentNumber: string;
+  CustomerNumber: string;
+  CustomerName?: string;
+  InvoiceDate?: string;
+  DueDate?: string;
+  Currency?: string;
+  Total?: number;
+  Balance?: number;
+  Booked?: boolean;
+  Cancelled?: boolean;
+  Sent?: boolean;
+  OCR?: string;
+}
+
+export type InvoiceCreate = Partial<Omit<Invoice, '@url'>> & Pick<Invoice, 'CustomerNumber'>;
+export type InvoiceUpdate = Partial<Omit<Invoice, '@url' | 'DocumentNumber'>>;
+
+// Articles
+
+export interface Article {
+  '@url'?: string;
+  ArticleNumber: string;
+  Description: string;
+  Type?: 'STOCK' | 'SERVICE';
+  Unit?: string;
+  EAN?: string;
+  Active?: boolean;
+  SalesPrice?: number;
+  PurchasePrice?: number;
+  VAT?: number;
+  StockGoods?: boolean;
+  QuantityInStock?: number;
+  SupplierNumber?: string;
+  Note?: string;
+}
+
+export interface ArticleListItem {
+  '@url'?: string;
+  ArticleNumber: string;
+  Description: string;
+  Unit?: string;
+  EAN?: string;
+  SalesPrice?: number;
+  PurchasePrice?: number;
+  QuantityInStock?: number;
+}
+
+export type ArticleCreate = Partial<Omit<Article, '@url'>> & Pick<Article, 'Description'>;
+export type ArticleUpdate = Partial<Omit<Article, '@url' | 'ArticleNumber'>>;
+
+// Suppliers
+
+export interface Supplier {
+  '@url'?: string;
+  SupplierNumber: string;
+  Name: string;
+  OrganisationNumber?: string;
+  VATNumber?: string;
+  Active?: boolean;
+  Address1?: string;
+  Address2?: string;
+  ZipCode?: string;
+  City?: string;
+  Country?: string;
+  CountryCode?: string;
+  Currency?: string;
+  Email?: string;
+  Phone1?: string;
+  BankAccountNumber?: string;
+  BG?: string;
+  PG?: string;
+  IBAN?: string;
+  BIC?: string;
+}
+
+export interface SupplierListItem {
+  '@url'?: string;
+  SupplierNumber: string;
+  Name: string;
+  OrganisationNumber?: string;
+  Address1?: string;
+  Address2?: string;
+  ZipCode?: string;
+  City?: string;
+  Email?: string;
+  Phone?: string;
+  BankAccountNumber?: string;
+}
+
+export type SupplierCreate = Partial<Omit<Supplier, '@url'>> & Pick<Supplier, 'Name'>;
+export type SupplierUpdate = Partial<Omit<Supplier, '@url' | 'SupplierNumber'>>;
+
+// Orders
+
+export interface OrderRow {
+  ArticleNumber?: string;
+  Description?: string;
+  OrderedQuantity?: number;
+  DeliveredQuantity?: number;
+  Price?: number;
+  Discount?: number;
+  VAT?: number;
+  Unit?: string;
+}
+
+export interface Order {
+  '@url'?: string;
+  DocumentNumber: string;
+  CustomerNumber: string;
+  CustomerName?: string;
+  OrderDate?: string;
+  DeliveryDate?: string;
+  Currency?: string;
+  Total?: number;
+  TotalVAT?: number;
+  Cancelled?: boolean;
+  Sent?: boolean;
+  InvoiceReference?: string;
+  OurReference?: string;
+  YourReference?: string;
+  Remarks?: string;
+  OrderRows?: OrderRow[];
+}
+
+export interface OrderListItem {
+  '@url'?: string;
+  DocumentNumber: string;
+  CustomerNumber: string;
+  CustomerName?: string;
+  OrderDate?: string;
+  DeliveryDate?: string;
+  Currency?: string;
+  Total?: number;
+  Cancelled?: boolean;
+  Sent?: boolean;
+}
+
+export type OrderCreate = Partial<Omit<Order, '@url'>> & Pick<Order, 'CustomerNumber'>;
+export type OrderUpdate = Partial<Omit<Order, '@url' | 'DocumentNumber'>>;
+
+/**
+ * A file in the Fortnox archive or inbox
+ */
+export interface ArchiveFile {
+  '@url'?: string;
+  Id: string;
+  Name: string;
+  Size?: number;
+  Path?: string;
+  Comments?: string;
+  ArchiveFileId?: string;
+}
+
+export interface SupplierInvoiceFileConnection {
+  '@url'?: string;
+  FileId: string;
+  Name?: string;
+  SupplierInvoiceNumber: string;
+  SupplierName?: string;
+}
+
+export interface VoucherFileConnection {
+  '@url'?: string;
+  FileId: string;
+  VoucherDescription?: string;
+  VoucherNumber: string;
+  VoucherSeries: string;
+  VoucherYear?: number;
+}
+
+/**
+ * Details of the Fortnox company, from `/companyinformation`
+ */
+export interface CompanyInformation {
+  Address?: string;
+  City?: string;
+  CountryCode?: string;
+  DatabaseNumber?: number;
+  CompanyName: string;
+  OrganizationNumber: string;
+  VisitAddress?: string;
+  VisitCity?: string;
+  VisitCountryCode?: string;
+  VisitZipCode?: string;
+  ZipCode?: string;
+}
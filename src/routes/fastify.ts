@@ -0,0 +1,101 @@
+/**
+ * Fastify Adapter
+ *
+ * Registers the Fortnox auth routes on a Fastify instance. The types below
+ * describe the parts of Fastify that are used, so Fastify isn't a dependency.
+ */
+
+import { FortnoxClient } from '../FortnoxClient';
+import { FortnoxAccountType, FortnoxTokens } from '../types';
+import {
+  createFortnoxAuthHandlers,
+  createFortnoxAuthRoutes,
+  FortnoxAuthResult,
+  FortnoxAuthRoutePaths,
+  FortnoxAuthRouterAction,
+  FortnoxSessionData,
+} from './handlers';
+
+/**
+ * The parts of a Fastify request used by the routes
+ */
+export interface FastifyRequestLike {
+  query: unknown;
+  body?: unknown;
+  // From @fastify/session, which saves changed properties. @fastify/secure-session only
+  // saves values written with `set()`, so it isn't supported as the session fallback.
+  session?: FortnoxSessionData | null;
+}
+
+/**
+ * The parts of a Fastify reply used by the routes
+ */
+export interface FastifyReplyLike {
+  redirect(url: string): unknown;
+  code(statusCode: number): FastifyReplyLike;
+  send(payload?: unknown): unknown;
+}
+
+/**
+ * The parts of a Fastify instance used by the plugin
+ */
+export interface FastifyInstanceLike {
+  get(path: string, handler: (request: any, reply: any) => Promise<unknown>): unknown;
+  post(path: string, handler: (request: any, reply: any) => Promise<unknown>): unknown;
+}
+
+export interface FortnoxFastifyOptions extends FortnoxAuthRoutePaths {
+  fortnoxClient: FortnoxClient;
+  getUserId: (request: FastifyRequestLike) => string | Promise<string>;
+  getAccountType?: (request: FastifyRequestLike) => FortnoxAccountType | undefined;
+  getTenantId?: (request: FastifyRequestLike) => string | undefined;
+  authorize?: (
+    request: FastifyRequestLike,
+    action: FortnoxAuthRouterAction,
+  ) => boolean | Promise<boolean>;
+  afterActivate?: (
+    request: FastifyRequestLike,
+    payload: { state: string; codeVerifier: string },
+  ) => void;
+  afterCallback?: (
+    request: FastifyRequestLike,
+    tokens: FortnoxTokens,
+  ) => FortnoxAuthResult | void | Promise<FortnoxAuthResult | void>;
+  responseMode?: 'redirect' | 'json';
+  successRedirect?: string;
+  failureRedirect?: string;
+}
+
+/**
+ * Creates a Fastify plugin with the Fortnox auth routes.
+ * Register it with a prefix, e.g. `fastify.register(plugin, { prefix: '/fortnox' })`.
+ * @param options The client, how to identify the user and the route paths
+ * @returns The plugin
+ */
+export const createFortnoxAuthPlugin = (options: FortnoxFastifyOptions) => {
+  const handlers = createFortnoxAuthHandlers<FastifyRequestLike>(options);
+  const routes = createFortnoxAuthRoutes(handlers, options);
+
+  return async (fastify: FastifyInstanceLike): Promise<void> => {
+    routes.forEach(({ method, path, handle }) => {
+      const register = method === 'GET' ? fastify.get : fastify.post;
+
+      register.call(fastify, path, async (request: FastifyRequestLike, reply: FastifyReplyLike) => {
+        const result = await handle({
+          raw: request,
+          query: (request.query || {}) as Record<string, unknown>,
+          body: request.body,
+          session: request.session,
+        });
+
+        if (result.type === 'redirect') {
+          return reply.redirect(result.location);
+        }
+        if (result.type === 'json') {
+          return reply.code(result.status).send(result.body);
+        }
+        return reply;
+      });
+    });
+  };
+};
@@ -0,0 +1,114 @@
+/**
+ * Fetch Adapter
+ *
+ * Serves the Fortnox auth routes with the standard Fetch `Request` and
+ * `Response`, for Next.js route handlers and other runtimes built on them.
+ */
+
+import { FortnoxClient } from '../FortnoxClient';
+import { FortnoxAccountType, FortnoxTokens } from '../types';
+import {
+  createFortnoxAuthHandlers,
+  createFortnoxAuthRoutes,
+  FortnoxAuthResult,
+  FortnoxAuthRoutePaths,
+  FortnoxAuthRouterAction,
+  FortnoxSessionData,
+} from './handlers';
+
+export interface FortnoxFetchOptions extends FortnoxAuthRoutePaths {
+  fortnoxClient: FortnoxClient;
+  getUserId: (request: Request) => string | Promise<string>;
+  getAccountType?: (request: Request) => FortnoxAccountType | undefined;
+  getTenantId?: (request: Request) => string | undefined;
+  authorize?: (request: Request, action: FortnoxAuthRouterAction) => boolean | Promise<boolean>;
+  afterActivate?: (request: Request, payload: { state: string; codeVerifier: string }) => void;
+  afterCallback?: (
+    request: Request,
+    tokens: FortnoxTokens,
+  ) => FortnoxAuthResult | void | Promise<FortnoxAuthResult | void>;
+  responseMode?: 'redirect' | 'json';
+  successRedirect?: string;
+  failureRedirect?: string;
+  /**
+   * Path prefix of all routes, e.g. `/api/fortnox`
+   * @default ''
+   */
+  basePath?: string;
+  /**
+   * Loads the session, for the session fallback of the callback.
+   * Without it, the callback relies on the state storage alone.
+   */
+  getSession?: (request: Request) => FortnoxSessionData | null | Promise<FortnoxSessionData | null>;
+  /**
+   * Persists the session after a route changed it
+   */
+  saveSession?: (request: Request, session: FortnoxSessionData) => Promise<void>;
+}
+
+/**
+ * Reads a JSON body, ignoring bodies that aren't JSON
+ */
+const readBody = async (request: Request): Promise<unknown> => {
+  if (!request.headers.get('content-type')?.includes('application/json')) {
+    return undefined;
+  }
+
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Converts a handler result to a Fetch response
+ */
+const toResponse = (result: FortnoxAuthResult): Response => {
+  if (result.type === 'redirect') {
+    // Response.redirect() only accepts absolute URLs
+    return new Response(null, { status: 302, headers: { Location: result.location } });
+  }
+  if (result.type === 'json') {
+    return Response.json(result.body, { status: result.status });
+  }
+  return new Response(null, { status: 204 });
+};
+
+/**
+ * Creates a Fetch handler with the Fortnox auth routes, e.g. for a Next.js
+ * catch-all route: `export const GET = handler; export const POST = handler;`
+ * @param options The client, how to identify the user and the route paths
+ * @returns A handler answering 404 for paths that aren't Fortnox auth routes
+ */
+export const createFortnoxAuthFetchHandler = (options: FortnoxFetchOptions) => {
+  const handlers = createFortnoxAuthHandlers<Request>(options);
+  const basePath = options.basePath || '';
+  const routes = createFortnoxAuthRoutes(handlers, options);
+  const { getSession, saveSession } = options;
+
+  return async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const route = routes.find(
+      ({ method, path }) => method === request.method && `${basePath}${path}` === url.pathname,
+    );
+
+    if (!route) {
+      return Response.json({ error: 'Not Found' }, { status: 404 });
+    }
+
+    const session = getSession ? await getSession(request) : null;
+    const result = await route.handle({
+      raw: request,
+      query: Object.fromEntries(url.searchParams),
+      body: request.method === 'POST' ? await readBody(request) : undefined,
+      session,
+    });
+
+    if (session && saveSession) {
+      await saveSession(request, session);
+    }
+
+    return toResponse(result);
+  };
+};
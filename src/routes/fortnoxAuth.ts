@@ -1,131 +1,106 @@
 import { Router, Request, Response } from 'express';
 import { FortnoxClient } from '../FortnoxClient';
+import { FortnoxAccountType } from '../types';
+import {
+  createFortnoxAuthHandlers,
+  createFortnoxAuthRoutes,
+  FortnoxAuthResult,
+  FortnoxAuthRoutePaths,
+  FortnoxAuthRouterAction,
+} from './handlers';
 
 // Add Express session declaration to support session-based storage
 declare module 'express-session' {
   interface SessionData {
     fortnoxState?: string;
     fortnoxCodeVerifier?: string;
+    fortnoxAccountType?: FortnoxAccountType;
+    fortnoxAdditionalCompany?: boolean;
   }
 }
 
-export interface FortnoxAuthRouterOptions {
+export interface FortnoxAuthRouterOptions extends FortnoxAuthRoutePaths {
   fortnoxClient: FortnoxClient;
-  getUserId: (req: Request) => string;
-  afterActivate?: (req: Request, res: Response, payload: { state: string; codeVerifier: string }) => void;
+  getUserId: (req: Request) => string | Promise<string>;
+  afterActivate?: (
+    req: Request,
+    res: Response,
+    payload: { state: string; codeVerifier: string },
+  ) => void;
   afterCallback?: (req: Request, res: Response, tokens: any) => void;
-  activatePath?: string;
-  callbackPath?: string;
   successRedirect?: string;
   failureRedirect?: string;
+  getAccountType?: (req: Request) => FortnoxAccountType | undefined;
+  /**
+   * `json` answers the activate routes with `{ authUrl }` instead of redirecting,
+   * for single-page apps. The callback always redirects.
+   * @default 'redirect'
+   */
+  responseMode?: 'redirect' | 'json';
+  /**
+   * Checks whether a request may use a route; denied requests get 403 Forbidden.
+   * All requests are allowed by default, acting on the user from `getUserId`.
+   */
+  authorize?: (req: Request, action: FortnoxAuthRouterAction) => boolean | Promise<boolean>;
+  /**
+   * Selects one of the user's companies for the management routes.
+   * Defaults to the `tenantId` query parameter or body field.
+   */
+  getTenantId?: (req: Request) => string | undefined;
 }
 
+interface ExpressContext {
+  req: Request;
+  res: Response;
+}
+
+/**
+ * Sends a handler result with Express
+ */
+const sendResult = (res: Response, result: FortnoxAuthResult): void => {
+  if (result.type === 'redirect') {
+    res.redirect(result.location);
+  } else if (result.type === 'json') {
+    res.status(result.status).json(result.body);
+  }
+};
+
 /**
  * Creates an Express router for handling Fortnox OAuth authentication
  */
 export const createFortnoxAuthRouter = (options: FortnoxAuthRouterOptions): Router => {
-  const {
-    fortnoxClient,
-    getUserId,
-    afterActivate,
-    afterCallback,
-    activatePath = '/activate',
-    callbackPath = '/callback',
-    successRedirect = '/',
-    failureRedirect = '/error',
-  } = options;
-
-  const router = Router();
-
-  // Route for initiating OAuth flow
-  router.get(activatePath, (req: Request, res: Response) => {
-    try {
-      const userId = getUserId(req);
-      const { authUrl, state, codeVerifier } = fortnoxClient.generateAuthUrl(userId);
-
-      // Allow custom handling after activation
-      if (afterActivate) {
-        afterActivate(req, res, { state, codeVerifier });
-      } else {
-        // Store PKCE state in session if available
-        if (req.session) {
-          req.session.fortnoxState = state;
-          req.session.fortnoxCodeVerifier = codeVerifier;
-        }
-      }
-
-      // Redirect to Fortnox authorization page
-      res.redirect(authUrl);
-    } catch (error) {
-      console.error('Failed to generate Fortnox auth URL:', error);
-      res.redirect(failureRedirect);
-    }
+  const { getUserId, getAccountType, getTenantId, authorize, afterActivate, afterCallback } =
+    options;
+
+  // The hooks get both the request and the response, as before
+  const handlers = createFortnoxAuthHandlers<ExpressContext>({
+    ...options,
+    getUserId: ({ req }) => getUserId(req),
+    getAccountType: getAccountType && (({ req }) => getAccountType(req)),
+    getTenantId: getTenantId && (({ req }) => getTenantId(req)),
+    authorize: authorize && (({ req }, action) => authorize(req, action)),
+    afterActivate: afterActivate && (({ req, res }, payload) => afterActivate(req, res, payload)),
+    afterCallback:
+      afterCallback &&
+      (({ req, res }, tokens) => {
+        afterCallback(req, res, tokens);
+        return { type: 'handled' };
+      }),
   });
 
-  // Route for handling OAuth callback
-  router.get(callbackPath, async (req: Request, res: Response) => {
-    try {
-      const { code, state, error } = req.query;
-
-      if (error) {
-        console.error('Fortnox auth error:', error);
-        return res.redirect(failureRedirect);
-      }
-
-      if (!code || !state || typeof code !== 'string' || typeof state !== 'string') {
-        console.error('Missing required parameters');
-        return res.redirect(failureRedirect);
-      }
-
-      // Method 1: Use state validation from FortnoxClient
-      const stateData = fortnoxClient.validateState(state);
-
-      if (stateData) {
-        const { userId, codeVerifier } = stateData;
-        const tokens = await fortnoxClient.exchangeCodeForTokens(userId, code, codeVerifier);
-
-        // Allow custom handling after successful callback
-        if (afterCallback) {
-          afterCallback(req, res, tokens);
-        } else {
-          res.redirect(successRedirect);
-        }
-        return;
-      }
-
-      // Method 2: Fall back to session-based verification if available
-      if (req.session && req.session.fortnoxState === state) {
-        const userId = getUserId(req);
-        const codeVerifier = req.session.fortnoxCodeVerifier;
-
-        if (!codeVerifier) {
-          console.error('Missing code verifier in session');
-          return res.redirect(failureRedirect);
-        }
-
-        const tokens = await fortnoxClient.exchangeCodeForTokens(userId, code, codeVerifier);
-
-        // Clean up session
-        delete req.session.fortnoxState;
-        delete req.session.fortnoxCodeVerifier;
-
-        // Allow custom handling after successful callback
-        if (afterCallback) {
-          afterCallback(req, res, tokens);
-        } else {
-          res.redirect(successRedirect);
-        }
-        return;
-      }
+  const router = Router();
 
-      // Invalid state
-      console.error('Invalid state parameter');
-      res.redirect(failureRedirect);
-    } catch (error) {
-      console.error('Failed to handle Fortnox callback:', error);
-      res.redirect(failureRedirect);
-    }
+  createFortnoxAuthRoutes(handlers, options).forEach(({ method, path, handle }) => {
+    router[method === 'GET' ? 'get' : 'post'](path, async (req: Request, res: Response) => {
+      const result = await handle({
+        raw: { req, res },
+        query: req.query,
+        body: req.body,
+        session: req.session,
+      });
+      sendResult(res, result);
+    });
   });
 
   return router;
-}; 
\ No newline at end of file
+};
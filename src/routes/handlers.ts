@@ -0,0 +1,434 @@
+/**
+ * Fortnox Auth Handlers
+ *
+ * The OAuth flow and connection management, independent of a web framework:
+ * - Starting the authorization flow, for the default connection or another company
+ * - Validating the callback and exchanging the code for tokens
+ * - Reporting, refreshing and disconnecting the user's connection
+ *
+ * Handlers take a request abstraction and return a redirect or JSON result;
+ * the Express, Fastify, Koa and Fetch adapters translate between the two.
+ */
+
+import { FortnoxClient } from '../FortnoxClient';
+import { FortnoxAccountType, FortnoxTokens } from '../types';
+import { FortnoxError, TokenRevocationError } from '../errors';
+
+/**
+ * Routes of the auth handlers, passed to the `authorize` check
+ */
+export type FortnoxAuthRouterAction =
+  'activate' | 'connectCompany' | 'status' | 'disconnect' | 'refresh';
+
+/**
+ * Body of the status route
+ */
+export interface FortnoxConnectionStatus {
+  connected: boolean;
+  tenantId?: string;
+  accountType?: FortnoxAccountType;
+  scopes?: string[];
+  expiresAt?: string; // ISO timestamp of the access token expiry
+  expired?: boolean;
+}
+
+/**
+ * Session fields used to validate the callback when the state storage can't
+ */
+export interface FortnoxSessionData {
+  fortnoxState?: string;
+  fortnoxCodeVerifier?: string;
+  fortnoxAccountType?: FortnoxAccountType;
+  fortnoxAdditionalCompany?: boolean;
+}
+
+/**
+ * A request as seen by the handlers
+ */
+export interface FortnoxAuthRequest<TReq> {
+  raw: TReq; // The framework's request, passed to the option callbacks
+  query: Record<string, unknown>;
+  body?: unknown;
+  session?: FortnoxSessionData | null; // Mutated in place
+}
+
+/**
+ * What to answer a request with
+ */
+export type FortnoxAuthResult =
+  | { type: 'redirect'; location: string }
+  | { type: 'json'; status: number; body: unknown }
+  | { type: 'handled' }; // A hook has already sent the response
+
+export interface FortnoxAuthHandlerOptions<TReq> {
+  fortnoxClient: FortnoxClient;
+  getUserId: (req: TReq) => string | Promise<string>;
+  getAccountType?: (req: TReq) => FortnoxAccountType | undefined;
+  /**
+   * Selects one of the user's companies for the management routes.
+   * Defaults to the `tenantId` query parameter or body field.
+   */
+  getTenantId?: (req: TReq) => string | undefined;
+  /**
+   * Checks whether a request may use a route; denied requests get 403 Forbidden.
+   * All requests are allowed by default, acting on the user from `getUserId`.
+   */
+  authorize?: (req: TReq, action: FortnoxAuthRouterAction) => boolean | Promise<boolean>;
+  /**
+   * Called with the PKCE values instead of storing them in the session
+   */
+  afterActivate?: (req: TReq, payload: { state: string; codeVerifier: string }) => void;
+  /**
+   * Called after a successful callback. Return a result to replace the success redirect.
+   */
+  afterCallback?: (
+    req: TReq,
+    tokens: FortnoxTokens,
+  ) => FortnoxAuthResult | void | Promise<FortnoxAuthResult | void>;
+  /**
+   * `json` answers the activate routes with `{ authUrl }` instead of redirecting,
+   * for single-page apps. The callback always redirects.
+   * @default 'redirect'
+   */
+  responseMode?: 'redirect' | 'json';
+  successRedirect?: string;
+  failureRedirect?: string;
+}
+
+export interface FortnoxAuthHandlers<TReq> {
+  activate(
+    request: FortnoxAuthRequest<TReq>,
+    additionalCompany?: boolean,
+  ): Promise<FortnoxAuthResult>;
+  callback(request: FortnoxAuthRequest<TReq>): Promise<FortnoxAuthResult>;
+  status(request: FortnoxAuthRequest<TReq>): Promise<FortnoxAuthResult>;
+  disconnect(request: FortnoxAuthRequest<TReq>): Promise<FortnoxAuthResult>;
+  refresh(request: FortnoxAuthRequest<TReq>): Promise<FortnoxAuthResult>;
+}
+
+/**
+ * Paths of the routes. The management routes are opt-in: they are only mounted
+ * when their path is set, e.g. `disconnectPath: '/disconnect'`.
+ */
+export interface FortnoxAuthRoutePaths {
+  activatePath?: string;
+  connectCompanyPath?: string; // Connects another company, keeping the user's existing ones
+  callbackPath?: string;
+  statusPath?: string | false;
+  disconnectPath?: string | false; // Changes state; protect it against CSRF with `authorize`
+  refreshPath?: string | false; // Changes state; protect it against CSRF with `authorize`
+}
+
+/**
+ * A route for an adapter to register
+ */
+export interface FortnoxAuthRoute<TReq> {
+  method: 'GET' | 'POST';
+  path: string;
+  handle: (request: FortnoxAuthRequest<TReq>) => Promise<FortnoxAuthResult>;
+}
+
+const json = (status: number, body: unknown): FortnoxAuthResult => ({ type: 'json', status, body });
+
+const redirect = (location: string): FortnoxAuthResult => ({ type: 'redirect', location });
+
+/**
+ * Describes the access token of a connection without exposing it
+ */
+export const toConnectionStatus = (tokens: FortnoxTokens | null): FortnoxConnectionStatus => {
+  if (!tokens) {
+    return { connected: false };
+  }
+
+  return {
+    connected: true,
+    tenantId: tokens.tenant_id,
+    accountType: tokens.account_type || 'user',
+    scopes: tokens.scope ? tokens.scope.split(' ') : [],
+    expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date).toISOString() : undefined,
+    expired: tokens.expiry_date ? tokens.expiry_date <= Date.now() : true,
+  };
+};
+
+/**
+ * Describes an error as JSON, with 404 for users that aren't connected
+ */
+const errorResult = (message: string, error: unknown): FortnoxAuthResult => {
+  if (error instanceof FortnoxError) {
+    const status = error.code === 'no_tokens' ? 404 : 502;
+    return json(status, { error: message, code: error.code, kind: error.kind });
+  }
+
+  return json(500, { error: message });
+};
+
+/**
+ * Returns a query parameter if it is a single string
+ */
+const getString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+/**
+ * Creates the OAuth and connection management handlers
+ * @param options The client, how to identify the user and how to respond
+ * @returns Handlers that turn requests into redirect or JSON results
+ */
+export const createFortnoxAuthHandlers = <TReq>(
+  options: FortnoxAuthHandlerOptions<TReq>,
+): FortnoxAuthHandlers<TReq> => {
+  const {
+    fortnoxClient,
+    getUserId,
+    getAccountType,
+    getTenantId,
+    authorize,
+    afterActivate,
+    afterCallback,
+    responseMode = 'redirect',
+    successRedirect = '/',
+    failureRedirect = '/error',
+  } = options;
+
+  const { logger } = fortnoxClient;
+  const forbidden = json(403, { error: 'Forbidden' });
+
+  const isAuthorized = async (req: TReq, action: FortnoxAuthRouterAction): Promise<boolean> =>
+    !authorize || authorize(req, action);
+
+  const tenantIdOf = (request: FortnoxAuthRequest<TReq>): string | undefined => {
+    if (getTenantId) {
+      return getTenantId(request.raw);
+    }
+
+    const body = request.body as Record<string, unknown> | undefined;
+    return getString(request.query.tenantId) ?? getString(body?.tenantId);
+  };
+
+  const completeCallback = async (
+    request: FortnoxAuthRequest<TReq>,
+    tokens: FortnoxTokens,
+  ): Promise<FortnoxAuthResult> => {
+    // Allow custom handling after successful callback
+    const result = afterCallback ? await afterCallback(request.raw, tokens) : undefined;
+    return result || redirect(successRedirect);
+  };
+
+  return {
+    // Initiates the OAuth flow, for the default connection or another company
+    async activate(request, additionalCompany = false) {
+      try {
+        if (!(await isAuthorized(request.raw, additionalCompany ? 'connectCompany' : 'activate'))) {
+          return forbidden;
+        }
+
+        const userId = await getUserId(request.raw);
+        const accountType = getAccountType?.(request.raw);
+        const { authUrl, state, codeVerifier } = fortnoxClient.generateAuthUrl(userId, {
+          ...(accountType ? { accountType } : {}),
+          ...(additionalCompany ? { additionalCompany } : {}),
+        });
+
+        // Allow custom handling after activation
+        if (afterActivate) {
+          afterActivate(request.raw, { state, codeVerifier });
+        } else if (request.session) {
+          // Store PKCE state in session if available
+          request.session.fortnoxState = state;
+          request.session.fortnoxCodeVerifier = codeVerifier;
+          request.session.fortnoxAccountType = accountType;
+          request.session.fortnoxAdditionalCompany = additionalCompany;
+        }
+
+        // Send the SPA the URL, or redirect to the Fortnox authorization page
+        return responseMode === 'json' ? json(200, { authUrl }) : redirect(authUrl);
+      } catch (error) {
+        logger.error('Failed to generate Fortnox auth URL', { error });
+
+        return responseMode === 'json'
+          ? json(500, { error: 'Failed to generate Fortnox auth URL' })
+          : redirect(failureRedirect);
+      }
+    },
+
+    // Handles the OAuth callback
+    async callback(request) {
+      try {
+        const { error } = request.query;
+        const code = getString(request.query.code);
+        const state = getString(request.query.state);
+
+        if (error) {
+          logger.warn('Fortnox authorization was denied or failed', { error });
+          return redirect(failureRedirect);
+        }
+
+        if (!code || !state) {
+          logger.warn('Missing required parameters in Fortnox callback');
+          return redirect(failureRedirect);
+        }
+
+        // Method 1: Use state validation from FortnoxClient
+        const stateData = fortnoxClient.validateState(state);
+
+        if (stateData) {
+          const { userId, codeVerifier, accountType, additionalCompany } = stateData;
+          const tokens = await fortnoxClient.exchangeCodeForTokens(
+            userId,
+            code,
+            codeVerifier,
+            accountType,
+            additionalCompany,
+          );
+
+          return await completeCallback(request, tokens);
+        }
+
+        // Method 2: Fall back to session-based verification if available
+        const { session } = request;
+
+        if (session && session.fortnoxState === state) {
+          const userId = await getUserId(request.raw);
+          const codeVerifier = session.fortnoxCodeVerifier;
+
+          if (!codeVerifier) {
+            logger.warn('Missing code verifier in session');
+            return redirect(failureRedirect);
+          }
+
+          const tokens = await fortnoxClient.exchangeCodeForTokens(
+            userId,
+            code,
+            codeVerifier,
+            session.fortnoxAccountType,
+            session.fortnoxAdditionalCompany,
+          );
+
+          // Clean up session
+          delete session.fortnoxState;
+          delete session.fortnoxCodeVerifier;
+          delete session.fortnoxAccountType;
+          delete session.fortnoxAdditionalCompany;
+
+          return await completeCallback(request, tokens);
+        }
+
+        // Invalid state
+        logger.warn('Invalid state parameter in Fortnox callback');
+        return redirect(failureRedirect);
+      } catch (error) {
+        logger.error('Failed to handle Fortnox callback', { error });
+        return redirect(failureRedirect);
+      }
+    },
+
+    // Checks whether the user is connected
+    async status(request) {
+      try {
+        if (!(await isAuthorized(request.raw, 'status'))) {
+          return forbidden;
+        }
+
+        const userId = await getUserId(request.raw);
+        const tokens = await fortnoxClient.getTokens(userId, tenantIdOf(request));
+        return json(200, toConnectionStatus(tokens));
+      } catch (error) {
+        logger.error('Failed to get Fortnox connection status', { error });
+        return errorResult('Failed to get connection status', error);
+      }
+    },
+
+    // Revokes the tokens and deletes the connection
+    async disconnect(request) {
+      try {
+        if (!(await isAuthorized(request.raw, 'disconnect'))) {
+          return forbidden;
+        }
+
+        const userId = await getUserId(request.raw);
+        const tenantId = tenantIdOf(request);
+
+        if (!(await fortnoxClient.getTokens(userId, tenantId))) {
+          return json(404, { error: 'Not connected to Fortnox', code: 'no_tokens' });
+        }
+
+        await fortnoxClient.revokeTokens(userId, { tenantId, deleteOnFailure: true });
+        return json(200, { disconnected: true, revoked: true });
+      } catch (error) {
+        // The connection is gone locally even if Fortnox rejected the revocation.
+        // TokenManager has logged the failure.
+        if (error instanceof TokenRevocationError && error.localDeleted) {
+          return json(200, { disconnected: true, revoked: false });
+        }
+
+        logger.error('Failed to disconnect from Fortnox', { error });
+        return errorResult('Failed to disconnect', error);
+      }
+    },
+
+    // Refreshes the access token
+    async refresh(request) {
+      try {
+        if (!(await isAuthorized(request.raw, 'refresh'))) {
+          return forbidden;
+        }
+
+        const userId = await getUserId(request.raw);
+        const tokens = await fortnoxClient.refreshTokens(userId, tenantIdOf(request));
+        return json(200, toConnectionStatus(tokens));
+      } catch (error) {
+        logger.error('Failed to refresh Fortnox token', { error });
+        return errorResult('Failed to refresh token', error);
+      }
+    },
+  };
+};
+
+/**
+ * Lists the routes to register, with their methods and paths
+ * @param handlers The handlers to route to
+ * @param paths Route paths; defaults to `/activate`, `/connect-company` and `/callback`.
+ * Management routes are only listed when their path is set.
+ */
+export const createFortnoxAuthRoutes = <TReq>(
+  handlers: FortnoxAuthHandlers<TReq>,
+  paths: FortnoxAuthRoutePaths = {},
+): FortnoxAuthRoute<TReq>[] => {
+  const {
+    activatePath = '/activate',
+    connectCompanyPath = '/connect-company',
+    callbackPath = '/callback',
+    statusPath,
+    disconnectPath,
+    refreshPath,
+  } = paths;
+
+  const routes: FortnoxAuthRoute<TReq>[] = [
+    { method: 'GET', path: activatePath, handle: (request) => handlers.activate(request) },
+    {
+      method: 'GET',
+      path: connectCompanyPath,
+      handle: (request) => handlers.activate(request, true),
+    },
+    { method: 'GET', path: callbackPath, handle: (request) => handlers.callback(request) },
+  ];
+
+  if (statusPath) {
+    routes.push({ method: 'GET', path: statusPath, handle: (request) => handlers.status(request) });
+  }
+  if (disconnectPath) {
+    routes.push({
+      method: 'POST',
+      path: disconnectPath,
+      handle: (request) => handlers.disconnect(request),
+    });
+  }
+  if (refreshPath) {
+    routes.push({
+      method: 'POST',
+      path: refreshPath,
+      handle: (request) => handlers.refresh(request),
+    });
+  }
+
+  return routes;
+};
@@ -0,0 +1,89 @@
+/**
+ * Koa Adapter
+ *
+ * Serves the Fortnox auth routes as Koa middleware. The types below describe
+ * the parts of the Koa context that are used, so Koa isn't a dependency.
+ */
+
+import { FortnoxClient } from '../FortnoxClient';
+import { FortnoxAccountType, FortnoxTokens } from '../types';
+import {
+  createFortnoxAuthHandlers,
+  createFortnoxAuthRoutes,
+  FortnoxAuthResult,
+  FortnoxAuthRoutePaths,
+  FortnoxAuthRouterAction,
+  FortnoxSessionData,
+} from './handlers';
+
+/**
+ * The parts of a Koa context used by the middleware
+ */
+export interface KoaContextLike {
+  method: string;
+  path: string;
+  query: Record<string, unknown>;
+  request: { body?: unknown }; // Set by a body parser
+  session?: FortnoxSessionData | null; // From koa-session
+  status: number;
+  body: unknown;
+  redirect(url: string): void;
+}
+
+export interface FortnoxKoaOptions extends FortnoxAuthRoutePaths {
+  fortnoxClient: FortnoxClient;
+  getUserId: (ctx: KoaContextLike) => string | Promise<string>;
+  getAccountType?: (ctx: KoaContextLike) => FortnoxAccountType | undefined;
+  getTenantId?: (ctx: KoaContextLike) => string | undefined;
+  authorize?: (ctx: KoaContextLike, action: FortnoxAuthRouterAction) => boolean | Promise<boolean>;
+  afterActivate?: (ctx: KoaContextLike, payload: { state: string; codeVerifier: string }) => void;
+  afterCallback?: (
+    ctx: KoaContextLike,
+    tokens: FortnoxTokens,
+  ) => FortnoxAuthResult | void | Promise<FortnoxAuthResult | void>;
+  responseMode?: 'redirect' | 'json';
+  successRedirect?: string;
+  failureRedirect?: string;
+  /**
+   * Path prefix of all routes, e.g. `/fortnox`
+   * @default ''
+   */
+  prefix?: string;
+}
+
+/**
+ * Creates Koa middleware with the Fortnox auth routes.
+ * Requests to other paths are passed on to the next middleware.
+ * @param options The client, how to identify the user and the route paths
+ * @returns The middleware
+ */
+export const createFortnoxAuthMiddleware = (options: FortnoxKoaOptions) => {
+  const handlers = createFortnoxAuthHandlers<KoaContextLike>(options);
+  const prefix = options.prefix || '';
+  const routes = createFortnoxAuthRoutes(handlers, options);
+
+  return async (ctx: KoaContextLike, next: () => Promise<unknown>): Promise<void> => {
+    const route = routes.find(
+      ({ method, path }) => method === ctx.method && `${prefix}${path}` === ctx.path,
+    );
+
+    if (!route) {
+      await next();
+      return;
+    }
+
+    const result = await route.handle({
+      raw: ctx,
+      query: ctx.query,
+      body: ctx.request.body,
+      session: ctx.session,
+    });
+
+    if (result.type === 'redirect') {
+      ctx.redirect(result.location);
+    } else if (result.type === 'json') {
+      ctx.status = result.status;
+      ctx.body = result.body;
+    }
+  };
+};
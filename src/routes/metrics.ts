@@ -0,0 +1,15 @@
+import { Request, Response } from 'express';
+import { InMemoryMetrics } from '../utils/metrics';
+
+const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Creates an Express handler that serves metrics in the Prometheus text format,
+ * e.g. `app.get('/metrics', createMetricsHandler(metrics))`
+ * @param metrics The registry passed to FortnoxClient as `metrics`
+ */
+export const createMetricsHandler =
+  (metrics: InMemoryMetrics) =>
+  (req: Request, res: Response): void => {
+    res.set('Content-Type', PROMETHEUS_CONTENT_TYPE).send(metrics.toPrometheusText());
+  };
@@ -81,6 +81,7 @@ const fortnoxAuthRouter = createFortnoxAuthRouter({
   callbackPath: '/auth-redir',
   successRedirect: '/auth-success',
   failureRedirect: '/auth-failure',
+  // Also serves GET /status, POST /disconnect and POST /refresh for this user
   afterCallback: (_req, res, _tokens) => {
     console.log('Authentication successful, tokens received');
     res.status(200).json({ 
@@ -102,49 +103,6 @@ app.get('/auth-failure', (_req: Request, res: Response) => {
 });
 
 // API Handlers
-// Token refresh endpoint
-app.get('/refresh-token', async (_req: Request, res: Response) => {
-  try {
-    const tokens = await fortnoxClient.refreshTokens(USER_ID);
-    console.log('Token refreshed successfully');
-    res.status(200).json({ 
-      message: 'Token refreshed successfully',
-      expiresIn: tokens.expires_in,
-      tokenType: tokens.token_type
-    });
-  } catch (error: any) {
-    console.error('Token refresh error:', error.message);
-    res.status(500).json({ 
-      error: 'Failed to refresh token',
-      details: error.message,
-      response: error.response?.data
-    });
-  }
-});
-
-// Check token status
-app.get('/token-status', async (_req: Request, res: Response) => {
-  try {
-    const storedTokens = await tokenStore.getTokens(USER_ID);
-    if (storedTokens) {
-      const expiryDate = new Date(storedTokens.expiry_date || 0);
-      const isExpired = storedTokens.expiry_date ? storedTokens.expiry_date <= Date.now() : true;
-      
-      res.json({
-        hasTokens: true,
-        isExpired,
-        expiryDate: expiryDate.toISOString(),
-        tokenType: storedTokens.token_type,
-        scope: storedTokens.scope
-      });
-    } else {
-      res.json({ hasTokens: false });
-    }
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to check token status' });
-  }
-});
-
 // Company information API
 app.get('/api/company-info', async (_req: Request, res: Response) => {
   try {
@@ -166,16 +124,12 @@ app.get('/api/company-info', async (_req: Request, res: Response) => {
 // Customers API
 app.get('/api/customers', async (_req: Request, res: Response) => {
   try {
-    const client = await fortnoxClient.getClient(USER_ID);
-    
     console.log('Making API call to Fortnox customers endpoint...');
     
-    const response = await client.get('/customers', {
-      headers: { 'Accept': 'application/json' }
-    });
+    const { items, meta } = await fortnoxClient.forUser(USER_ID).customers.list();
     
     console.log('API call successful');
-    res.json(response.data);
+    res.json({ Customers: items, MetaInformation: meta });
   } catch (error: any) {
     handleApiError(error, res, 'Failed to get customers');
   }
@@ -184,12 +138,12 @@ app.get('/api/customers', async (_req: Request, res: Response) => {
 // Helper function to handle API errors
 function handleApiError(error: any, res: Response, message: string) {
   console.error(`${message}:`, error.message);
-  console.error('API error details:', error.response?.data);
+  console.error('API error details:', error.body);
   
   res.status(500).json({ 
     error: message,
     details: error.message,
-    response: error.response?.data
+    response: error.body
   });
 }
 
@@ -210,7 +164,8 @@ app.listen(PORT, () => {
   console.log(`- ${redirectUri} - Callback URL for Fortnox authentication`);
   console.log(`- http://localhost:${PORT}/api/company-info - Get company information`);
   console.log(`- http://localhost:${PORT}/api/customers - Get customers list`);
-  console.log(`- http://localhost:${PORT}/refresh-token - Manually refresh the token`);
-  console.log(`- http://localhost:${PORT}/token-status - Check current token status`);
+  console.log(`- http://localhost:${PORT}/status - Check current token status`);
+  console.log(`- POST http://localhost:${PORT}/refresh - Manually refresh the token`);
+  console.log(`- POST http://localhost:${PORT}/disconnect - Revoke and delete the tokens`);
 });
 
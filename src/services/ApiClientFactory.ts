@@ -4,23 +4,127 @@
  * Responsible for creating authenticated API clients for Fortnox:
  * - Creating Axios instances with proper authorization headers
  * - Setting up interceptors for token refresh
+ * - Rate limiting requests and retrying rate-limited (429) responses
  * - Handling API errors
+ * - Recording request metrics and spans
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios';
-import { FortnoxTokens } from '../types';
+import { Readable } from 'stream';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosError, AxiosResponse } from 'axios';
+import { FortnoxConnectionEvent, FortnoxEventSink, FortnoxTokens } from '../types';
 import { TokenManager } from './TokenManager';
+import { RateLimiter, TokenBucketRateLimiter } from './RateLimiter';
+import { backoffDelay, delay, parseRetryAfter } from '../utils/delay';
+import { FORTNOX_ERROR_CODES, FortnoxErrorCodes, toFortnoxApiError } from '../errors';
+import { getTenantIdFromToken } from '../utils/jwt';
+import { emitSafely } from '../utils/events';
+import { consoleLogger, createRedactingLogger, Logger } from '../utils/logger';
+import { FORTNOX_METRICS, MetricsRecorder, noopMetrics } from '../utils/metrics';
+import { endSpan, noopTracer, Span, startClientSpan, Tracer } from '../utils/tracing';
 
 export interface ApiClientOptions {
   baseUrl?: string;
   defaultHeaders?: Record<string, string>;
   timeout?: number;
+  /**
+   * Rate limiter shared by all clients, keyed by Fortnox tenant ID, or by
+   * user ID if the tenant is unknown.
+   * Defaults to 25 requests per 5 seconds. Pass `false` to disable.
+   */
+  rateLimiter?: RateLimiter | false;
+  /**
+   * Maximum number of retries for rate-limited (429) responses
+   * @default 3
+   */
+  maxRateLimitRetries?: number;
+  /**
+   * Base delay for exponential backoff when no Retry-After header is present
+   * @default 1000
+   */
+  retryBaseDelayMs?: number;
+  /**
+   * Logger for failed and rate-limited requests; messages are redacted
+   */
+  logger?: Logger;
+  /**
+   * Receives `apiRequest`, `apiError` and `rateLimited` events.
+   * Set by FortnoxClient, which re-emits them.
+   */
+  events?: FortnoxEventSink;
+  /**
+   * Records request latency by endpoint and status, 401 retries and 429 responses
+   */
+  metrics?: MetricsRecorder;
+  /**
+   * Traces every request attempt in a client span
+   */
+  tracer?: Tracer;
+  /**
+   * Fortnox error codes mapped to kinds, added to or overriding FORTNOX_ERROR_CODES
+   * for this client's errors only
+   */
+  errorCodes?: FortnoxErrorCodes;
 }
 
+/**
+ * Request config accepted by API clients
+ */
+export type FortnoxRequestConfig = AxiosRequestConfig & {
+  /**
+   * Creates the request body. Use this instead of `data` for stream bodies,
+   * which can only be read once, so retried requests get a fresh body.
+   */
+  createData?: () => unknown;
+};
+
+type RetryableRequestConfig = FortnoxRequestConfig & {
+  _retry?: boolean;
+  _rateLimitRetries?: number;
+  _telemetry?: { span: Span; startTime: number };
+};
+
+/**
+ * Replaces record IDs in a request path so endpoints can be used as metric labels,
+ * e.g. `/invoices/123/bookkeep` becomes `/invoices/:id/bookkeep`.
+ * The first segment names the resource; later segments are kept only if they are
+ * lowercase words, like Fortnox actions.
+ */
+const getEndpoint = (url = ''): string => {
+  const { pathname } = new URL(url, 'http://localhost');
+  const segments = pathname.split('/').filter(Boolean);
+
+  return `/${segments
+    .map((segment, index) => (index === 0 || /^[a-z]+$/.test(segment) ? segment : ':id'))
+    .join('/')}`;
+};
+
+/**
+ * Reads a response body stream into a buffer
+ */
+const readStream = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  return Buffer.concat(chunks);
+};
+
+const MAX_RETRY_DELAY_MS = 30000;
+
 export class ApiClientFactory {
   private tokenManager: TokenManager;
   private baseUrl: string;
   private defaultOptions: ApiClientOptions;
+  private rateLimiter: RateLimiter | null;
+  private maxRateLimitRetries: number;
+  private retryBaseDelayMs: number;
+  private logger: Logger;
+  private events?: FortnoxEventSink;
+  private metrics: MetricsRecorder;
+  private tracer: Tracer;
+  private errorCodes: FortnoxErrorCodes;
 
   constructor(
     tokenManager: TokenManager,
@@ -36,22 +140,46 @@ export class ApiClientFactory {
       },
       timeout: options.timeout || 30000
     };
+    this.maxRateLimitRetries = options.maxRateLimitRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs || 1000;
+    this.rateLimiter = options.rateLimiter === false
+      ? null
+      : options.rateLimiter || new TokenBucketRateLimiter();
+    this.logger = createRedactingLogger(options.logger || consoleLogger);
+    this.events = options.events;
+    this.metrics = options.metrics || noopMetrics;
+    this.tracer = options.tracer || noopTracer;
+    this.errorCodes = Object.freeze({ ...FORTNOX_ERROR_CODES, ...options.errorCodes });
   }
 
   /**
    * Creates an authenticated API client for a specific user
    * @param userId User ID to create client for
+   * @param tenantId The company to create the client for; the default connection if omitted
    * @returns Axios instance configured for API requests
    */
-  public async createClient(userId: string): Promise<AxiosInstance> {
+  public async createClient(userId: string, tenantId?: string): Promise<AxiosInstance> {
     // Get valid tokens for the user (refreshes if needed)
-    const tokens = await this.tokenManager.getValidTokens(userId);
+    const tokens = await this.tokenManager.getValidTokens(userId, tenantId);
     
     // Create a new client with authentication
     const client = this.createAxiosInstance(tokens, userId);
+    const connection: FortnoxConnectionEvent = { userId, tenantId };
+
+    // Request interceptors run in reverse order, so these run after the rate limiter
+    // and the measured latency excludes the wait for it
+    this.setupRequestEventInterceptor(client, connection);
+    this.setupTelemetryInterceptors(client, connection);
+    
+    // Fortnox limits requests per company, so all connections to a company share a budget
+    const rateLimitKey = tokens.tenant_id || getTenantIdFromToken(tokens.access_token) || userId;
+    this.setupRateLimitInterceptor(client, rateLimitKey);
+
+    // Create stream bodies per attempt, so retries don't send a consumed stream
+    this.setupRequestBodyInterceptor(client);
     
     // Add interceptors for automatic token refresh
-    this.setupTokenRefreshInterceptor(client, userId);
+    this.setupTokenRefreshInterceptor(client, connection);
     
     return client;
   }
@@ -71,17 +199,142 @@ export class ApiClientFactory {
     });
   }
 
+  /**
+   * Sets up an interceptor that reports every request as it is sent
+   */
+  private setupRequestEventInterceptor(
+    client: AxiosInstance,
+    connection: FortnoxConnectionEvent
+  ): void {
+    client.interceptors.request.use((config) => {
+      emitSafely(this.events, this.logger, 'apiRequest', {
+        ...connection,
+        method: (config.method || 'get').toUpperCase(),
+        url: config.url || '',
+      });
+      return config;
+    });
+  }
+
+  /**
+   * Sets up interceptors that time and trace every attempt of a request.
+   * The response interceptor runs before retries, so each attempt is recorded.
+   */
+  private setupTelemetryInterceptors(
+    client: AxiosInstance,
+    connection: FortnoxConnectionEvent
+  ): void {
+    client.interceptors.request.use((config) => {
+      const method = (config.method || 'get').toUpperCase();
+      const endpoint = getEndpoint(config.url);
+      const span = startClientSpan(this.tracer, `${method} ${endpoint}`, {
+        'http.request.method': method,
+        'http.route': endpoint,
+        'fortnox.user_id': connection.userId,
+        'fortnox.tenant_id': connection.tenantId,
+      });
+
+      (config as RetryableRequestConfig)._telemetry = { span, startTime: Date.now() };
+      return config;
+    });
+
+    client.interceptors.response.use(
+      (response) => {
+        this.recordAttempt(response.config, response);
+        return response;
+      },
+      (error: AxiosError) => {
+        this.recordAttempt(error.config, error.response, error);
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Records the latency of a request attempt and ends its span
+   */
+  private recordAttempt(
+    config: RetryableRequestConfig | undefined,
+    response: AxiosResponse | undefined,
+    error?: AxiosError
+  ): void {
+    const telemetry = config?._telemetry;
+
+    if (!config || !telemetry) {
+      return;
+    }
+
+    // Network errors and timeouts have no status
+    const status = response ? response.status : 'error';
+    this.metrics.observeHistogram(
+      FORTNOX_METRICS.apiRequestDuration,
+      (Date.now() - telemetry.startTime) / 1000,
+      {
+        method: (config.method || 'get').toUpperCase(),
+        endpoint: getEndpoint(config.url),
+        status,
+      }
+    );
+
+    if (status === 429) {
+      this.metrics.incrementCounter(FORTNOX_METRICS.rateLimited);
+    }
+
+    if (response) {
+      telemetry.span.setAttribute('http.response.status_code', response.status);
+    }
+    endSpan(telemetry.span, error);
+    config._telemetry = undefined;
+  }
+
+  /**
+   * Sets up an interceptor that waits for the rate limiter before each request
+   */
+  private setupRateLimitInterceptor(client: AxiosInstance, key: string): void {
+    const { rateLimiter } = this;
+
+    if (!rateLimiter) {
+      return;
+    }
+
+    client.interceptors.request.use(async (config) => {
+      await rateLimiter.acquire(key);
+      return config;
+    });
+  }
+
+  /**
+   * Sets up an interceptor that creates the body of requests with `createData`,
+   * once for every attempt
+   */
+  private setupRequestBodyInterceptor(client: AxiosInstance): void {
+    client.interceptors.request.use((config) => {
+      const { createData } = config as FortnoxRequestConfig;
+
+      if (createData) {
+        config.data = createData();
+      }
+      return config;
+    });
+  }
+
   /**
    * Sets up an interceptor to refresh the token if it expires
+   * and to retry requests rejected with 429 Too Many Requests
    */
-  private setupTokenRefreshInterceptor(client: AxiosInstance, userId: string): void {
+  private setupTokenRefreshInterceptor(
+    client: AxiosInstance,
+    connection: FortnoxConnectionEvent
+  ): void {
+    const { userId, tenantId } = connection;
+
     client.interceptors.response.use(
       // Success handler
       (response) => response,
       
       // Error handler
       async (error: AxiosError) => {
-        const originalRequest = error.config as AxiosRequestConfig & { _retry?: boolean };
+        const originalRequest = error.config as RetryableRequestConfig;
         
         // Only handle 401 errors (Unauthorized) that haven't been retried yet
         if (
@@ -90,10 +343,11 @@ export class ApiClientFactory {
           originalRequest
         ) {
           originalRequest._retry = true;
+          this.metrics.incrementCounter(FORTNOX_METRICS.unauthorizedRetries);
           
           try {
             // Refresh the token
-            const newTokens = await this.tokenManager.refreshTokens(userId);
+            const newTokens = await this.tokenManager.refreshTokens(userId, tenantId);
             
             // Update the Authorization header
             if (originalRequest.headers) {
@@ -105,37 +359,105 @@ export class ApiClientFactory {
             }
             
             // Retry the original request
-            return axios(originalRequest);
+            return client.request(originalRequest);
           } catch (refreshError) {
             // If we can't refresh the token, propagate the error
+            this.reportError(connection, originalRequest, refreshError as Error);
             return Promise.reject(refreshError);
           }
         }
         
+        // Retry rate-limited requests after the delay Fortnox asks for
+        if (error.response?.status === 429 && originalRequest) {
+          const retries = originalRequest._rateLimitRetries || 0;
+          
+          if (retries < this.maxRateLimitRetries) {
+            const retryAfterMs = this.getRetryDelay(error, retries);
+            originalRequest._rateLimitRetries = retries + 1;
+
+            this.logger.warn('Fortnox rate limit reached, retrying', {
+              ...connection,
+              retryAfterMs,
+              attempt: retries + 1,
+            });
+            emitSafely(this.events, this.logger, 'rateLimited', {
+              ...connection,
+              retryAfterMs,
+              attempt: retries + 1,
+            });
+
+            await delay(retryAfterMs);
+            return client.request(originalRequest);
+          }
+        }
+        
         // For other errors, just propagate
-        return Promise.reject(this.normalizeError(error));
+        const normalizedError = await this.normalizeError(error, userId);
+        this.reportError(connection, originalRequest, normalizedError);
+        return Promise.reject(normalizedError);
       }
     );
   }
 
   /**
-   * Normalizes API errors for consistency
+   * Logs a failed request and emits an `apiError` event
    */
-  private normalizeError(error: AxiosError): Error {
-    if (error.response?.data) {
-      // Extract Fortnox API error if available
-      const apiError = error.response.data as any;
-      
-      if (apiError.error_description) {
-        return new Error(`API Error (${apiError.error}): ${apiError.error_description}`);
+  private reportError(
+    connection: FortnoxConnectionEvent,
+    config: AxiosRequestConfig | undefined,
+    error: Error
+  ): void {
+    const request = {
+      method: config?.method?.toUpperCase(),
+      url: config?.url,
+    };
+
+    this.logger.debug('Fortnox API request failed', { ...connection, ...request, error });
+    emitSafely(this.events, this.logger, 'apiError', { ...connection, ...request, error });
+  }
+
+  /**
+   * Determines how long to wait before retrying a rate-limited request.
+   * Uses the Retry-After header when present, otherwise exponential backoff.
+   */
+  private getRetryDelay(error: AxiosError, attempt: number): number {
+    const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+    
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+    }
+    
+    return backoffDelay(attempt, this.retryBaseDelayMs, MAX_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Normalizes API errors into typed Fortnox errors
+   */
+  private async normalizeError(error: AxiosError, userId: string): Promise<Error> {
+    // Network errors and timeouts have no response to describe
+    if (!error.response) {
+      return error;
+    }
+
+    // Binary and streaming requests get their error body as a buffer or a stream;
+    // decode it to read the error code
+    let { data } = error.response;
+    if (data instanceof Readable) {
+      try {
+        data = await readStream(data);
+        error.response.data = data;
+      } catch {
+        // The body could not be read; describe the error by its status
       }
-      
-      if (apiError.ErrorInformation?.message) {
-        return new Error(`API Error: ${apiError.ErrorInformation.message}`);
+    }
+    if (Buffer.isBuffer(data) || data instanceof ArrayBuffer) {
+      try {
+        error.response.data = JSON.parse(Buffer.from(data as Buffer).toString('utf8'));
+      } catch {
+        // Not JSON; keep the raw body
       }
     }
     
-    // Default error handling
-    return error;
+    return toFortnoxApiError(error, userId, this.errorCodes);
   }
-} 
\ No newline at end of file
+}
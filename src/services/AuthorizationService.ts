@@ -5,13 +5,23 @@
  * - Generating authorization URLs
  * - Managing state and PKCE parameters
  * - Exchanging authorization codes for tokens
+ * - Authorizing service accounts (account_type=service)
  */
 
 import axios from 'axios';
 import qs from 'qs';
 import { createCodeChallenge, createCodeVerifier, createState } from '../utils/PKCE';
 import { StateStorage } from '../utils/stateStorage';
-import { FortnoxAuthOptions, FortnoxAuthPayload, FortnoxTokens, TokenStore } from '../types';
+import { getTenantIdFromToken } from '../utils/jwt';
+import { FortnoxAuthError, toFortnoxAuthError } from '../errors';
+import {
+  FortnoxAccountType,
+  FortnoxAuthOptions,
+  FortnoxAuthPayload,
+  FortnoxStateData,
+  FortnoxTokens,
+  TokenStore,
+} from '../types';
 
 export class AuthorizationService {
   private clientId: string;
@@ -50,9 +60,11 @@ export class AuthorizationService {
     const state = options?.state || createState();
     const codeVerifier = options?.codeVerifier || createCodeVerifier();
     const codeChallenge = createCodeChallenge(codeVerifier);
+    const accountType = options?.accountType || 'user';
+    const additionalCompany = options?.additionalCompany || false;
 
     // Store the state and user ID mapping for verification in the callback
-    const stateData = JSON.stringify({ userId, codeVerifier });
+    const stateData = JSON.stringify({ userId, codeVerifier, accountType, additionalCompany });
     
     // Store state data securely with a 10-minute expiration
     this.stateStorage.saveState(state, stateData);
@@ -65,6 +77,8 @@ export class AuthorizationService {
       state,
       code_challenge: codeChallenge,
       code_challenge_method: 'S256',
+      // Service accounts are authorized once by an admin and then use client credentials
+      ...(accountType === 'service' ? { account_type: 'service' } : {}),
     };
 
     const authUrl = `${this.authBaseUrl}/auth?${qs.stringify(queryParams)}`;
@@ -79,9 +93,10 @@ export class AuthorizationService {
   /**
    * Validates the state parameter and retrieves the associated user ID
    * @param state The state parameter from the callback
-   * @returns The user ID and code verifier if the state is valid
+   * @returns The user ID, code verifier, account type and whether another company
+   * is being connected, if the state is valid
    */
-  public validateState(state: string): { userId: string; codeVerifier: string } | null {
+  public validateState(state: string): FortnoxStateData | null {
     const stateData = this.stateStorage.validateAndRemoveState(state);
     
     if (!stateData) {
@@ -89,8 +104,8 @@ export class AuthorizationService {
     }
     
     try {
-      const { userId, codeVerifier } = JSON.parse(stateData);
-      return { userId, codeVerifier };
+      const { userId, codeVerifier, accountType, additionalCompany } = JSON.parse(stateData);
+      return { userId, codeVerifier, accountType, additionalCompany };
     } catch (error) {
       return null;
     }
@@ -101,12 +116,17 @@ export class AuthorizationService {
    * @param userId The ID of the user to associate with the tokens
    * @param code The authorization code from the callback
    * @param codeVerifier The code verifier used in the authorization request
+   * @param accountType The account type the authorization URL was generated for
+   * @param additionalCompany Store the tokens under their tenant ID instead of
+   * replacing the user's default connection
    * @returns The tokens received from Fortnox
    */
   public async exchangeCodeForTokens(
     userId: string,
     code: string,
     codeVerifier: string,
+    accountType: FortnoxAccountType = 'user',
+    additionalCompany: boolean = false,
   ): Promise<FortnoxTokens> {
     const tokenUrl = `${this.authBaseUrl}/token`;
     const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
@@ -130,15 +150,37 @@ export class AuthorizationService {
         ...response.data,
         // Add expiry date for easier token refresh
         expiry_date: Date.now() + response.data.expires_in * 1000,
+        account_type: accountType,
+        tenant_id: getTenantIdFromToken(response.data.access_token),
       };
 
+      // Service accounts need the tenant ID for every client credentials request
+      if (accountType === 'service' && !tokens.tenant_id) {
+        throw new FortnoxAuthError(
+          'Failed to exchange code: no tenant ID in the service account token',
+          { userId, code: 'no_tenant_id' },
+        );
+      }
+
+      // Other companies are told apart by their tenant ID
+      if (additionalCompany && !tokens.tenant_id) {
+        throw new FortnoxAuthError(
+          'Failed to exchange code: no tenant ID in the token of the additional company',
+          { userId, code: 'no_tenant_id' },
+        );
+      }
+
       // Save the tokens
-      await this.tokenStore.saveTokens(userId, tokens);
+      await this.tokenStore.saveTokens(
+        userId,
+        tokens,
+        additionalCompany ? tokens.tenant_id : undefined,
+      );
 
       return tokens;
     } catch (error) {
       if (axios.isAxiosError(error) && error.response) {
-        throw new Error(`Failed to exchange code: ${error.response.data.error_description || error.message}`);
+        throw toFortnoxAuthError('Failed to exchange code', error, userId);
       }
       throw error;
     }
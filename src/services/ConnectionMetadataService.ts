@@ -0,0 +1,80 @@
+/**
+ * Connection Metadata Service
+ *
+ * Responsible for knowing which Fortnox company is behind a connection:
+ * - Reading the tenant ID from the access token claims
+ * - Fetching the company name and organisation number from /companyinformation
+ * - Finding other connections to the same company
+ */
+
+import { ConnectionInfo, ConnectionMetadata } from '../types';
+import { CompanyInformation } from '../resources/models';
+import { getTenantIdFromToken } from '../utils/jwt';
+import { ScopeError } from '../errors';
+import { TokenManager } from './TokenManager';
+import { ApiClientFactory } from './ApiClientFactory';
+
+export class ConnectionMetadataService {
+  private tokenManager: TokenManager;
+  private apiClientFactory: ApiClientFactory;
+
+  constructor(tokenManager: TokenManager, apiClientFactory: ApiClientFactory) {
+    this.tokenManager = tokenManager;
+    this.apiClientFactory = apiClientFactory;
+  }
+
+  /**
+   * Collects and stores the tenant and company details of a connection.
+   * Without the companyinformation scope, only the tenant ID is collected.
+   * @param userId The user ID
+   * @param tenantId The company; the default connection if omitted
+   * @returns The stored metadata
+   */
+  public async collect(userId: string, tenantId?: string): Promise<ConnectionMetadata> {
+    const tokens = await this.tokenManager.getValidTokens(userId, tenantId);
+    const metadata: ConnectionMetadata = {
+      tenantId: tokens.tenant_id || getTenantIdFromToken(tokens.access_token),
+      collectedAt: new Date().toISOString(),
+    };
+
+    try {
+      const client = await this.apiClientFactory.createClient(userId, tenantId);
+      const response = await client.get('/companyinformation');
+      const company: CompanyInformation | undefined = response.data.CompanyInformation;
+
+      metadata.companyName = company?.CompanyName;
+      metadata.organizationNumber = company?.OrganizationNumber;
+    } catch (error) {
+      // The companyinformation scope is optional
+      if (!(error instanceof ScopeError)) {
+        throw error;
+      }
+    }
+
+    await this.tokenManager.saveConnectionMetadata(userId, metadata, tenantId);
+    return metadata;
+  }
+
+  /**
+   * Finds other connections to the same Fortnox company as a user's connection
+   * @param userId The user ID
+   * @param tenantId The company; the default connection if omitted
+   * @returns The other connections to the tenant, empty if the tenant is unknown
+   */
+  public async findDuplicateConnections(
+    userId: string,
+    tenantId?: string,
+  ): Promise<ConnectionInfo[]> {
+    const connection = await this.tokenManager.getConnectionInfo(userId, tenantId);
+    const companyTenantId = connection?.metadata?.tenantId;
+
+    if (!connection || !companyTenantId) {
+      return [];
+    }
+
+    const connections = await this.tokenManager.findConnectionsByTenant(companyTenantId);
+    return connections.filter(
+      (other) => other.userId !== connection.userId || other.tenantId !== connection.tenantId,
+    );
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * Fortnox Event Stream
+ *
+ * Subscribes to change events from the Fortnox WebSocket topics API:
+ * - Registers the tenants of stored connections with their access tokens
+ * - Subscribes to topics from the last processed offset
+ * - Reconnects with exponential backoff when the connection drops
+ * - Persists offsets through a pluggable offset store
+ */
+
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { FortnoxError } from '../errors';
+import { ConnectionRef } from '../types';
+import { backoffDelay } from '../utils/delay';
+import { getConnectionKey } from '../utils/connection';
+import { consoleLogger, createRedactingLogger, Logger } from '../utils/logger';
+import { TokenManager } from './TokenManager';
+
+const FORTNOX_WEBSOCKET_URL = 'wss://ws.fortnox.se/topics-v1';
+
+/**
+ * Storage for the last processed offset of each topic.
+ * Implement this on top of a persistent store so a restarted process
+ * resumes where it left off instead of missing or replaying events.
+ */
+export interface OffsetStore {
+  getOffset(topic: string): Promise<string | undefined>;
+  saveOffset(topic: string, offset: string): Promise<void>;
+}
+
+/**
+ * In-memory offset storage
+ * Offsets are lost when the process restarts
+ */
+export class InMemoryOffsetStore implements OffsetStore {
+  private offsets = new Map<string, string>();
+
+  public async getOffset(topic: string): Promise<string | undefined> {
+    return this.offsets.get(topic);
+  }
+
+  public async saveOffset(topic: string, offset: string): Promise<void> {
+    this.offsets.set(topic, offset);
+  }
+}
+
+/**
+ * A change event published by Fortnox
+ */
+export interface FortnoxEvent {
+  topic: string; // e.g. `invoices`
+  offset: string;
+  type: string; // e.g. `invoice-created`, `invoice-updated`
+  tenantId: number;
+  userId?: string; // The connection the tenant was registered for
+  year?: number | null; // Financial year, for vouchers
+  series?: string | null; // Voucher series, for vouchers
+  entityId: string; // e.g. the invoice number
+  timestamp: string;
+}
+
+/**
+ * Listeners of a FortnoxEventStream by event name
+ */
+export interface FortnoxEventStreamEvents {
+  event: (event: FortnoxEvent) => void;
+  connected: (tenants: Record<string, number>) => void; // Tenant IDs by connection key
+  disconnected: (code: number, reason: string) => void;
+  reconnecting: (attempt: number, delayMs: number) => void;
+  // Fortnox rejected the connection's access token
+  invalidTenant: (userId: string, tenantId?: string) => void;
+  error: (error: Error) => void;
+}
+
+export interface FortnoxEventStreamOptions {
+  /**
+   * Connections whose tenants to subscribe to: user IDs for default
+   * connections, or references to one of a user's companies
+   */
+  userIds: Array<string | ConnectionRef>;
+
+  /**
+   * Topics to subscribe to, e.g. `['invoices', 'customers']`
+   */
+  topics: string[];
+
+  /**
+   * WebSocket URL, e.g. a local stand-in for tests
+   * @default 'wss://ws.fortnox.se/topics-v1'
+   */
+  url?: string;
+
+  /**
+   * Offset storage, defaults to an in-memory store
+   */
+  offsetStore?: OffsetStore;
+
+  /**
+   * Delay before the first reconnect attempt
+   * @default 1000
+   */
+  reconnectBaseDelayMs?: number;
+
+  /**
+   * Upper bound for the reconnect delay
+   * @default 60000
+   */
+  maxReconnectDelayMs?: number;
+
+  /**
+   * Logger for errors nobody listens to; messages are redacted
+   */
+  logger?: Logger;
+}
+
+interface CommandResponse {
+  type: 'command-response';
+  result: string;
+  response: string;
+  tenantIds?: Record<string, number>;
+  invalidTokens?: string[];
+  invalidTopics?: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isCommandResponse = (message: unknown): message is CommandResponse =>
+  isRecord(message) && message.type === 'command-response';
+
+// Events carry a topic and an offset; other messages are ignored
+const isEventMessage = (message: unknown): message is Omit<FortnoxEvent, 'userId'> =>
+  isRecord(message) &&
+  typeof message.topic === 'string' &&
+  typeof message.offset === 'string' &&
+  message.topic !== '' &&
+  message.offset !== '';
+
+interface PendingCommand {
+  resolve: (response: CommandResponse) => void;
+  reject: (error: Error) => void;
+}
+
+export class FortnoxEventStream extends EventEmitter {
+  private tokenManager: TokenManager;
+  private clientSecret: string;
+  private connections: ConnectionRef[];
+  private topics: string[];
+  private url: string;
+  private offsetStore: OffsetStore;
+  private reconnectBaseDelayMs: number;
+  private maxReconnectDelayMs: number;
+  private logger: Logger;
+  private socket: WebSocket | null = null;
+  private pendingCommand: PendingCommand | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempt = 0;
+  private stopped = true;
+  private tenantConnections = new Map<number, ConnectionRef>();
+  private offsetQueue: Promise<void> = Promise.resolve();
+
+  constructor(tokenManager: TokenManager, clientSecret: string, options: FortnoxEventStreamOptions) {
+    super();
+    this.tokenManager = tokenManager;
+    this.clientSecret = clientSecret;
+    this.connections = options.userIds.map((ref) =>
+      (typeof ref === 'string' ? { userId: ref } : ref));
+    this.topics = options.topics;
+    this.url = options.url || FORTNOX_WEBSOCKET_URL;
+    this.offsetStore = options.offsetStore || new InMemoryOffsetStore();
+    this.reconnectBaseDelayMs = options.reconnectBaseDelayMs || 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs || 60000;
+    this.logger = createRedactingLogger(options.logger || consoleLogger);
+  }
+
+  public on<E extends keyof FortnoxEventStreamEvents>(
+    event: E,
+    listener: FortnoxEventStreamEvents[E],
+  ): this {
+    return super.on(event, listener);
+  }
+
+  public once<E extends keyof FortnoxEventStreamEvents>(
+    event: E,
+    listener: FortnoxEventStreamEvents[E],
+  ): this {
+    return super.once(event, listener);
+  }
+
+  public off<E extends keyof FortnoxEventStreamEvents>(
+    event: E,
+    listener: FortnoxEventStreamEvents[E],
+  ): this {
+    return super.off(event, listener);
+  }
+
+  /**
+   * Connects and subscribes. Resolves once the subscription is active.
+   * The stream reconnects by itself until `stop()` is called, also when
+   * this first attempt fails.
+   */
+  public async start(): Promise<void> {
+    if (!this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+    await this.connect();
+  }
+
+  /**
+   * Closes the connection and stops reconnecting
+   */
+  public async stop(): Promise<void> {
+    this.stopped = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.socket?.close(1000, 'Stopped');
+    this.socket = null;
+
+    // Let pending offset writes finish
+    await this.offsetQueue;
+  }
+
+  /**
+   * Opens a connection, registers the tenants and subscribes to the topics
+   */
+  private async connect(): Promise<void> {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.on('message', (data) => this.handleMessage(data.toString()));
+    socket.on('error', (error) => this.reportError(error));
+    socket.on('close', (code, reason) => {
+      this.pendingCommand?.reject(new FortnoxError('WebSocket closed', { code }));
+      this.pendingCommand = null;
+
+      if (this.socket === socket) {
+        this.socket = null;
+        this.emit('disconnected', code, reason.toString());
+        this.scheduleReconnect();
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('close', () => reject(new FortnoxError('WebSocket connection failed')));
+    });
+
+    try {
+      await this.registerTenants();
+      await this.addTopics();
+      await this.sendCommand({ command: 'subscribe-v1' });
+    } catch (error) {
+      // Closing the socket schedules the next attempt
+      socket.close();
+      throw error;
+    }
+
+    this.reconnectAttempt = 0;
+    this.emit('connected', Object.fromEntries(
+      Array.from(this.tenantConnections, ([tenantId, { userId, tenantId: companyId }]) => [
+        getConnectionKey(userId, companyId),
+        tenantId,
+      ]),
+    ));
+  }
+
+  /**
+   * Registers the tenant of every connection using its current access token
+   */
+  private async registerTenants(): Promise<void> {
+    const connectionsByToken = new Map<string, ConnectionRef>();
+
+    for (const connection of this.connections) {
+      try {
+        const tokens = await this.tokenManager.getValidTokens(
+          connection.userId,
+          connection.tenantId,
+        );
+        connectionsByToken.set(tokens.access_token, connection);
+      } catch (error) {
+        this.reportError(error as Error);
+        this.emit('invalidTenant', connection.userId, connection.tenantId);
+      }
+    }
+
+    const response = await this.sendCommand({
+      command: 'add-tenants-v1',
+      clientSecret: this.clientSecret,
+      accessTokens: Array.from(connectionsByToken.keys()),
+    });
+
+    this.tenantConnections.clear();
+    Object.entries(response.tenantIds || {}).forEach(([accessToken, tenantId]) => {
+      const connection = connectionsByToken.get(accessToken);
+      if (connection) {
+        this.tenantConnections.set(tenantId, connection);
+      }
+    });
+
+    (response.invalidTokens || []).forEach((accessToken) => {
+      const connection = connectionsByToken.get(accessToken);
+      if (connection) {
+        this.emit('invalidTenant', connection.userId, connection.tenantId);
+      }
+    });
+  }
+
+  /**
+   * Adds the topics, resuming each one from its stored offset
+   */
+  private async addTopics(): Promise<void> {
+    const topics = await Promise.all(this.topics.map(async (topic) => {
+      const offset = await this.offsetStore.getOffset(topic);
+      return offset ? { topic, offset } : { topic };
+    }));
+
+    const response = await this.sendCommand({ command: 'add-topics-v1', topics });
+
+    if (response.invalidTopics?.length) {
+      this.reportError(new FortnoxError(`Invalid topics: ${response.invalidTopics.join(', ')}`, {
+        body: response,
+      }));
+    }
+  }
+
+  /**
+   * Sends a command and waits for its response. Commands are sent one at a time.
+   */
+  private sendCommand(command: Record<string, unknown>): Promise<CommandResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+        reject(new FortnoxError('WebSocket is not open'));
+        return;
+      }
+
+      this.pendingCommand = { resolve, reject };
+      this.socket.send(JSON.stringify(command));
+    });
+  }
+
+  private handleMessage(raw: string): void {
+    let message: unknown;
+
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      this.reportError(new FortnoxError('Invalid message from Fortnox WebSocket', { body: raw }));
+      return;
+    }
+
+    if (isCommandResponse(message)) {
+      const pending = this.pendingCommand;
+      this.pendingCommand = null;
+
+      if (message.result === 'ok') {
+        pending?.resolve(message);
+      } else {
+        pending?.reject(new FortnoxError(`WebSocket command ${message.response} failed`, {
+          code: message.result,
+          body: message,
+        }));
+      }
+      return;
+    }
+
+    if (isEventMessage(message)) {
+      const event: FortnoxEvent = {
+        ...message,
+        userId: this.tenantConnections.get(message.tenantId)?.userId,
+      };
+
+      try {
+        this.emit('event', event);
+      } catch (error) {
+        // A failing listener must not crash the socket or leave a gap in the saved offsets
+        this.reportError(error instanceof Error ? error : new Error(String(error)));
+      }
+
+      // Save offsets in order, after the listeners have been called
+      this.offsetQueue = this.offsetQueue
+        .then(() => this.offsetStore.saveOffset(event.topic, event.offset))
+        .catch((error) => this.reportError(error));
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) {
+      return;
+    }
+
+    const delayMs = backoffDelay(
+      this.reconnectAttempt,
+      this.reconnectBaseDelayMs,
+      this.maxReconnectDelayMs,
+    );
+    this.reconnectAttempt += 1;
+    this.emit('reconnecting', this.reconnectAttempt, delayMs);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((error) => this.reportError(error));
+    }, delayMs);
+  }
+
+  /**
+   * Emits an error if anyone listens, so a background stream never crashes the process.
+   * Otherwise the error is logged.
+   */
+  private reportError(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    } else {
+      this.logger.error('Fortnox event stream error', { error });
+    }
+  }
+}
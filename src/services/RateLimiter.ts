@@ -0,0 +1,113 @@
+/**
+ * Rate Limiter
+ *
+ * Token-bucket rate limiting for Fortnox API requests:
+ * - One bucket per key (user or tenant)
+ * - Defaults to the Fortnox limit of 25 requests per 5 seconds
+ * - Pluggable bucket backend so several processes can share one budget
+ */
+
+import { delay } from '../utils/delay';
+
+/**
+ * Storage for token buckets.
+ * Implement this on top of a shared store (e.g. Redis or Postgres) to share
+ * the request budget between processes.
+ */
+export interface RateLimiterBackend {
+  /**
+   * Tries to take one token from the bucket identified by key
+   * @param key Bucket key
+   * @param capacity Maximum number of tokens in the bucket
+   * @param intervalMs Time in which a completely empty bucket is refilled
+   * @returns 0 if a token was taken, otherwise the number of milliseconds to wait before retrying
+   */
+  take(key: string, capacity: number, intervalMs: number): Promise<number>;
+}
+
+/**
+ * Interface for rate limiter implementations
+ */
+export interface RateLimiter {
+  /**
+   * Waits until a request may be made for the given key
+   */
+  acquire(key: string): Promise<void>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * In-memory token bucket storage
+ * This is suitable for single-process deployments
+ */
+export class InMemoryRateLimiterBackend implements RateLimiterBackend {
+  private buckets = new Map<string, Bucket>();
+
+  public async take(key: string, capacity: number, intervalMs: number): Promise<number> {
+    const now = Date.now();
+    const refillPerMs = capacity / intervalMs;
+    const bucket = this.buckets.get(key) || { tokens: capacity, updatedAt: now };
+
+    // Refill based on the time passed since the last request
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+
+    return Math.ceil((1 - bucket.tokens) / refillPerMs);
+  }
+}
+
+/**
+ * Options for the TokenBucketRateLimiter
+ */
+export interface TokenBucketRateLimiterOptions {
+  /**
+   * Maximum number of requests in a burst
+   * @default 25
+   */
+  capacity?: number;
+
+  /**
+   * Time window for `capacity` requests in milliseconds
+   * @default 5000
+   */
+  intervalMs?: number;
+
+  /**
+   * Bucket storage, defaults to an in-memory backend
+   */
+  backend?: RateLimiterBackend;
+}
+
+/**
+ * Rate limiter using one token bucket per key
+ */
+export class TokenBucketRateLimiter implements RateLimiter {
+  private capacity: number;
+  private intervalMs: number;
+  private backend: RateLimiterBackend;
+
+  constructor(options: TokenBucketRateLimiterOptions = {}) {
+    this.capacity = options.capacity || 25;
+    this.intervalMs = options.intervalMs || 5000;
+    this.backend = options.backend || new InMemoryRateLimiterBackend();
+  }
+
+  public async acquire(key: string): Promise<void> {
+    let waitMs = await this.backend.take(key, this.capacity, this.intervalMs);
+
+    while (waitMs > 0) {
+      await delay(waitMs);
+      waitMs = await this.backend.take(key, this.capacity, this.intervalMs);
+    }
+  }
+}
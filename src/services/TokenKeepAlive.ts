@@ -0,0 +1,187 @@
+/**
+ * Token Keep-Alive
+ *
+ * Fortnox refresh tokens expire when they are not used within their lifetime.
+ * This service periodically refreshes connections that have not been
+ * refreshed recently, so rarely used connections stay alive:
+ * - Finds connections whose refresh tokens are nearing expiry
+ * - Refreshes them with limited concurrency and random jitter
+ * - Reports failures through hooks
+ */
+
+import { ConnectionInfo } from '../types';
+import { delay } from '../utils/delay';
+import { TokenManager } from './TokenManager';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TokenKeepAliveOptions {
+  /**
+   * How often to look for connections to refresh
+   * @default 1 hour
+   */
+  intervalMs?: number;
+
+  /**
+   * Lifetime of a Fortnox refresh token
+   * @default 45 days
+   */
+  refreshTokenLifetimeMs?: number;
+
+  /**
+   * Refresh connections whose refresh token expires within this window
+   * @default 7 days
+   */
+  expiryWindowMs?: number;
+
+  /**
+   * Maximum number of refreshes running at once
+   * @default 2
+   */
+  concurrency?: number;
+
+  /**
+   * Maximum random delay before each refresh, to spread load on Fortnox
+   * @default 5000
+   */
+  jitterMs?: number;
+
+  /**
+   * Called when refreshing a connection fails
+   */
+  onError?: (userId: string, error: unknown, tenantId?: string) => void;
+
+  /**
+   * Called when listing the connections fails during a periodic run.
+   * `runOnce()` rejects with the error instead.
+   */
+  onListError?: (error: unknown) => void;
+}
+
+export interface TokenKeepAliveResult {
+  checked: number;
+  refreshed: string[]; // User IDs, once per refreshed connection
+  failed: Array<{ userId: string; tenantId?: string; error: unknown }>;
+}
+
+export class TokenKeepAlive {
+  private tokenManager: TokenManager;
+  private intervalMs: number;
+  private refreshTokenLifetimeMs: number;
+  private expiryWindowMs: number;
+  private concurrency: number;
+  private jitterMs: number;
+  private onError?: (userId: string, error: unknown, tenantId?: string) => void;
+  private onListError?: (error: unknown) => void;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<TokenKeepAliveResult> | null = null;
+
+  constructor(tokenManager: TokenManager, options: TokenKeepAliveOptions = {}) {
+    this.tokenManager = tokenManager;
+    this.intervalMs = options.intervalMs || 60 * 60 * 1000;
+    this.refreshTokenLifetimeMs = options.refreshTokenLifetimeMs || 45 * DAY_MS;
+    this.expiryWindowMs = options.expiryWindowMs || 7 * DAY_MS;
+    this.concurrency = Math.max(1, options.concurrency || 2);
+    this.jitterMs = options.jitterMs ?? 5000;
+    this.onError = options.onError;
+    this.onListError = options.onListError;
+  }
+
+  /**
+   * Starts refreshing connections periodically, beginning immediately
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    // Don't keep the process alive just for the keep-alive
+    this.timer.unref();
+    this.tick();
+  }
+
+  /**
+   * Stops the periodic refresh. A run in progress is allowed to finish.
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Refreshes all connections that are nearing expiry once
+   * @returns Which connections were refreshed and which failed
+   */
+  public async runOnce(): Promise<TokenKeepAliveResult> {
+    // Don't start a second run while one is in progress
+    if (!this.running) {
+      this.running = this.refreshDueConnections().finally(() => {
+        this.running = null;
+      });
+    }
+
+    return this.running;
+  }
+
+  /**
+   * Checks whether a connection's refresh token is nearing expiry
+   */
+  public isDue(connection: ConnectionInfo, now: number = Date.now()): boolean {
+    // Only connecting and refreshing issue a refresh token; other writes, e.g. re-encryption,
+    // also move updatedAt
+    const issuedAt = new Date(connection.lastRefreshedAt ?? connection.createdAt).getTime();
+
+    if (Number.isNaN(issuedAt)) {
+      return true;
+    }
+
+    const expiresAt = issuedAt + this.refreshTokenLifetimeMs;
+    return expiresAt - now <= this.expiryWindowMs;
+  }
+
+  private tick(): void {
+    // Failed refreshes are reported by the run; only listing the connections rejects it
+    this.runOnce().catch((error) => {
+      this.onListError?.(error);
+    });
+  }
+
+  private async refreshDueConnections(): Promise<TokenKeepAliveResult> {
+    const result: TokenKeepAliveResult = { checked: 0, refreshed: [], failed: [] };
+    const due: ConnectionInfo[] = [];
+
+    for await (const connection of this.tokenManager.iterateConnections()) {
+      result.checked += 1;
+      if (this.isDue(connection)) {
+        due.push(connection);
+      }
+    }
+
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < due.length) {
+        const { userId, tenantId } = due[next];
+        next += 1;
+
+        if (this.jitterMs > 0) {
+          await delay(Math.random() * this.jitterMs);
+        }
+
+        try {
+          await this.tokenManager.refreshTokens(userId, tenantId);
+          result.refreshed.push(userId);
+        } catch (error) {
+          result.failed.push({ userId, tenantId, error });
+          this.onError?.(userId, error, tenantId);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, due.length) }, worker));
+
+    return result;
+  }
+}
@@ -3,14 +3,87 @@
  * 
  * Responsible for managing OAuth tokens:
  * - Refreshing tokens when they expire
+ * - Fetching service account tokens with the client credentials grant
  * - Retrieving tokens for API requests
  * - Revoking tokens when needed
  * - Managing token storage
+ * - Serializing refreshes across processes with an optional distributed lock
+ * - Detecting refreshes that lost a race with versioned token updates
  */
 
 import axios from 'axios';
 import qs from 'qs';
-import { FortnoxTokens, TokenStore } from '../types';
+import {
+  ConnectionInfo,
+  ConnectionMetadata,
+  ConnectionPage,
+  DistributedLock,
+  FortnoxEventSink,
+  FortnoxTokens,
+  ListConnectionsOptions,
+  TokenStore,
+} from '../types';
+import {
+  FortnoxAuthError,
+  TokenRevocationError,
+  TokenVersionConflictError,
+  toFortnoxAuthError,
+} from '../errors';
+import { getConnectionKey } from '../utils/connection';
+import { getTenantIdFromToken } from '../utils/jwt';
+import { emitSafely } from '../utils/events';
+import { consoleLogger, createRedactingLogger, Logger } from '../utils/logger';
+import { FORTNOX_METRICS, MetricsRecorder, noopMetrics } from '../utils/metrics';
+import { noopTracer, Tracer, withSpan } from '../utils/tracing';
+
+export interface TokenManagerOptions {
+  /**
+   * Lock held while refreshing, so only one process uses a single-use refresh token
+   */
+  lock?: DistributedLock;
+  /**
+   * Logger for refresh and revocation failures; messages are redacted
+   */
+  logger?: Logger;
+  /**
+   * Receives `tokenRefreshed`, `refreshFailed` and `disconnected` events
+   */
+  events?: FortnoxEventSink;
+  /**
+   * Counts refreshes by result
+   */
+  metrics?: MetricsRecorder;
+  /**
+   * Traces refreshes in `fortnox.refresh_tokens` spans
+   */
+  tracer?: Tracer;
+}
+
+export interface RevokeTokensOptions {
+  /**
+   * Delete the tokens locally even if revoking them at Fortnox fails.
+   * A TokenRevocationError is still thrown so the failure can be reported.
+   * @default false
+   */
+  deleteOnFailure?: boolean;
+  /**
+   * The company to disconnect; the user's default connection if omitted
+   */
+  tenantId?: string;
+}
+
+interface ResolvedConnection {
+  tokens: FortnoxTokens;
+  tenantId?: string; // The tenant ID the connection is stored under
+}
+
+// Retries of a version conflict caused by a write that kept the tokens, e.g. re-encryption
+const MAX_VERSION_CONFLICT_RETRIES = 3;
+
+interface RefreshQueueEntry {
+  resolve: (tokens: FortnoxTokens) => void;
+  reject: (error: unknown) => void;
+}
 
 export class TokenManager {
   private clientId: string;
@@ -18,27 +91,40 @@ export class TokenManager {
   private tokenStore: TokenStore;
   private authBaseUrl: string;
   private refreshing: boolean = false;
-  private refreshQueue: Map<string, Array<(tokens: FortnoxTokens) => void>> = new Map();
+  private refreshQueue: Map<string, RefreshQueueEntry[]> = new Map();
+  private lock?: DistributedLock;
+  private logger: Logger;
+  private events?: FortnoxEventSink;
+  private metrics: MetricsRecorder;
+  private tracer: Tracer;
 
   constructor(
     clientId: string,
     clientSecret: string,
     tokenStore: TokenStore,
-    authBaseUrl: string = 'https://apps.fortnox.se/oauth-v1'
+    authBaseUrl: string = 'https://apps.fortnox.se/oauth-v1',
+    options: TokenManagerOptions = {}
   ) {
     this.clientId = clientId;
     this.clientSecret = clientSecret;
     this.tokenStore = tokenStore;
     this.authBaseUrl = authBaseUrl;
+    this.lock = options.lock;
+    this.logger = createRedactingLogger(options.logger || consoleLogger);
+    this.events = options.events;
+    this.metrics = options.metrics || noopMetrics;
+    this.tracer = options.tracer || noopTracer;
   }
 
   /**
    * Get tokens for a user
    * @param userId The user ID to get tokens for
+   * @param tenantId The company to get tokens for; the default connection if omitted
    * @returns The user's tokens or null if not found
    */
-  public async getTokens(userId: string): Promise<FortnoxTokens | null> {
-    return this.tokenStore.getTokens(userId);
+  public async getTokens(userId: string, tenantId?: string): Promise<FortnoxTokens | null> {
+    const connection = await this.resolveConnection(userId, tenantId);
+    return connection?.tokens || null;
   }
 
   /**
@@ -58,99 +144,334 @@ export class TokenManager {
   /**
    * Refreshes the access token for a user
    * @param userId The ID of the user to refresh tokens for
+   * @param tenantId The company to refresh tokens for; the default connection if omitted
    * @returns The refreshed tokens
    */
-  public async refreshTokens(userId: string): Promise<FortnoxTokens> {
-    // If already refreshing for this user, queue the request
-    if (this.isRefreshing(userId)) {
-      return new Promise((resolve) => {
-        this.addToRefreshQueue(userId, (tokens) => {
-          resolve(tokens);
-        });
+  public async refreshTokens(userId: string, tenantId?: string): Promise<FortnoxTokens> {
+    return withSpan(
+      this.tracer,
+      'fortnox.refresh_tokens',
+      { 'fortnox.user_id': userId, 'fortnox.tenant_id': tenantId },
+      () => this.refreshConnectionTokens(userId, tenantId)
+    );
+  }
+
+  /**
+   * Refreshes the tokens of a connection, or waits for a refresh in progress
+   */
+  private async refreshConnectionTokens(
+    userId: string,
+    tenantId?: string
+  ): Promise<FortnoxTokens> {
+    const connection = await this.resolveConnection(userId, tenantId);
+
+    if (!connection) {
+      throw new FortnoxAuthError('No tokens found for user', { userId, code: 'no_tokens' });
+    }
+
+    const storedTenantId = connection.tenantId;
+    const key = getConnectionKey(userId, storedTenantId);
+
+    // If already refreshing this connection, queue the request
+    if (this.isRefreshing(key)) {
+      return new Promise((resolve, reject) => {
+        this.addToRefreshQueue(key, { resolve, reject });
       });
     }
     
     try {
-      this.setRefreshing(userId, true);
+      this.setRefreshing(key, true);
       
-      const tokens = await this.tokenStore.getTokens(userId);
-      
-      if (!tokens) {
-        throw new Error('No tokens found for user');
-      }
+      const { tokens } = connection;
 
-      const tokenUrl = `${this.authBaseUrl}/token`;
-      const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
-      
-      const data = {
-        grant_type: 'refresh_token',
-        refresh_token: tokens.refresh_token,
-      };
+      const newTokens = await this.withRefreshLock(key, async () => {
+        // Another process may have refreshed while we waited for the lock.
+        // Re-read so we reuse its tokens instead of spending a rotated refresh token.
+        const currentTokens = await this.tokenStore.getTokens(userId, storedTenantId);
 
-      const response = await axios.post(tokenUrl, qs.stringify(data), {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Authorization': `Basic ${credentials}`,
-        },
-      });
+        if (!currentTokens) {
+          throw new FortnoxAuthError('No tokens found for user', { userId, code: 'no_tokens' });
+        }
+
+        if (
+          this.lock &&
+          currentTokens.access_token !== tokens.access_token &&
+          !this.isTokenExpired(currentTokens)
+        ) {
+          return currentTokens;
+        }
 
-      const newTokens: FortnoxTokens = {
-        ...response.data,
-        expiry_date: Date.now() + response.data.expires_in * 1000,
-      };
+        let refreshedTokens: FortnoxTokens;
 
-      // Update the tokens
-      await this.tokenStore.updateTokens(userId, newTokens);
+        try {
+          // Service accounts have no refresh token; they get new tokens with client credentials
+          refreshedTokens = currentTokens.account_type === 'service'
+            ? await this.requestServiceAccountTokens(currentTokens.tenant_id)
+            : await this.requestRefreshedTokens(currentTokens);
+        } catch (error) {
+          // Fortnox rejects a refresh token that a concurrent refresh has already rotated
+          const winnerTokens = await this.getChangedTokens(userId, storedTenantId, currentTokens);
+          if (winnerTokens) {
+            return winnerTokens;
+          }
+          throw error;
+        }
+
+        const storedTokens = await this.saveRefreshedTokens(
+          userId,
+          storedTenantId,
+          currentTokens,
+          refreshedTokens
+        );
+
+        // Lost the race to a refresh that finished first; its tokens are the current ones
+        if (storedTokens !== refreshedTokens) {
+          return storedTokens;
+        }
+
+        const { expiry_date: expiryDate } = refreshedTokens;
+        this.logger.debug('Refreshed Fortnox tokens', { userId, tenantId: storedTenantId });
+        this.metrics.incrementCounter(FORTNOX_METRICS.tokenRefreshes, { result: 'success' });
+        emitSafely(this.events, this.logger, 'tokenRefreshed', {
+          userId,
+          tenantId: storedTenantId,
+          expiresAt: expiryDate ? new Date(expiryDate) : undefined,
+        });
+
+        return refreshedTokens;
+      });
 
       // Process any queued requests
-      this.processRefreshQueue(userId, newTokens);
+      this.processRefreshQueue(key, newTokens);
       
       return newTokens;
     } catch (error) {
+      const refreshError = axios.isAxiosError(error) && error.response
+        ? toFortnoxAuthError('Failed to refresh token', error, userId)
+        : error;
+
+      this.logger.warn('Failed to refresh Fortnox tokens', {
+        userId,
+        tenantId: storedTenantId,
+        error: refreshError,
+      });
+      this.metrics.incrementCounter(FORTNOX_METRICS.tokenRefreshes, { result: 'failure' });
+      emitSafely(this.events, this.logger, 'refreshFailed', {
+        userId,
+        tenantId: storedTenantId,
+        error: refreshError,
+      });
+
       // Process the queue with error
-      this.processRefreshQueue(userId, null);
+      this.processRefreshQueue(key, null, refreshError);
       
+      throw refreshError;
+    } finally {
+      this.setRefreshing(key, false);
+    }
+  }
+
+  /**
+   * Authorizes a service account and stores its tokens.
+   * The tenant must have authorized the integration with `account_type=service` first.
+   * @param userId The ID of the user to associate with the tokens
+   * @param tenantId The Fortnox tenant ID of the service account
+   * @param additionalCompany Store the tokens as another company instead of the default connection
+   * @returns The tokens received from Fortnox
+   */
+  public async authorizeServiceAccount(
+    userId: string,
+    tenantId: string,
+    additionalCompany: boolean = false
+  ): Promise<FortnoxTokens> {
+    try {
+      const tokens = await this.requestServiceAccountTokens(tenantId);
+      await this.tokenStore.saveTokens(userId, tokens, additionalCompany ? tenantId : undefined);
+      return tokens;
+    } catch (error) {
       if (axios.isAxiosError(error) && error.response) {
-        throw new Error(`Failed to refresh token: ${error.response.data.error_description || error.message}`);
+        throw toFortnoxAuthError('Failed to authorize service account', error, userId);
       }
       throw error;
-    } finally {
-      this.setRefreshing(userId, false);
     }
   }
 
   /**
-   * Revokes the tokens for a user
+   * Revokes the refresh token at Fortnox and deletes the tokens locally
    * @param userId The ID of the user to revoke tokens for
+   * @param options Revocation options
+   * @throws TokenRevocationError if revoking at Fortnox or deleting locally fails
    */
-  public async revokeTokens(userId: string): Promise<void> {
-    await this.tokenStore.deleteTokens(userId);
+  public async revokeTokens(userId: string, options: RevokeTokensOptions = {}): Promise<void> {
+    const connection = await this.resolveConnection(userId, options.tenantId);
+
+    if (!connection) {
+      // Nothing to revoke; deleting stays idempotent and no `disconnected` event is emitted
+      await this.tokenStore.deleteTokens(userId, options.tenantId);
+      return;
+    }
+
+    const { tokens, tenantId: storedTenantId } = connection;
+    let remoteError: unknown;
+
+    // Service accounts have no refresh token to revoke
+    if (tokens.refresh_token) {
+      try {
+        await this.revokeRefreshToken(tokens.refresh_token);
+      } catch (error) {
+        remoteError = error;
+      }
+    }
+
+    if (remoteError && !options.deleteOnFailure) {
+      throw this.createRevocationError(userId, remoteError, false, false);
+    }
+
+    try {
+      await this.tokenStore.deleteTokens(userId, storedTenantId);
+    } catch (error) {
+      if (remoteError) {
+        throw this.createRevocationError(userId, remoteError, false, false, error);
+      }
+      throw this.createRevocationError(userId, error, true, false);
+    }
+
+    emitSafely(this.events, this.logger, 'disconnected', {
+      userId,
+      tenantId: storedTenantId,
+      revoked: !remoteError,
+    });
+
+    if (remoteError) {
+      this.logger.warn('Deleted Fortnox tokens that could not be revoked', {
+        userId,
+        tenantId: storedTenantId,
+        error: remoteError,
+      });
+      throw this.createRevocationError(userId, remoteError, false, true);
+    }
   }
 
   /**
    * Gets current valid tokens or refreshes them if expired
    * @param userId User ID to get tokens for
+   * @param tenantId The company to get tokens for; the default connection if omitted
    * @returns Valid tokens
    */
-  public async getValidTokens(userId: string): Promise<FortnoxTokens> {
-    const tokens = await this.tokenStore.getTokens(userId);
+  public async getValidTokens(userId: string, tenantId?: string): Promise<FortnoxTokens> {
+    const connection = await this.resolveConnection(userId, tenantId);
     
-    if (!tokens) {
-      throw new Error('No tokens found for user');
+    if (!connection) {
+      throw new FortnoxAuthError('No tokens found for user', { userId, code: 'no_tokens' });
     }
     
     // Check if token is expired or about to expire
-    if (this.isTokenExpired(tokens)) {
-      return this.refreshTokens(userId);
+    if (this.isTokenExpired(connection.tokens)) {
+      return this.refreshTokens(userId, connection.tenantId);
     }
     
-    return tokens;
+    return connection.tokens;
+  }
+
+  /**
+   * Lists a page of connections in the token store
+   * @param options Page size and cursor
+   * @returns The connections with their timestamps and scope
+   */
+  public async listConnections(options?: ListConnectionsOptions): Promise<ConnectionPage> {
+    if (!this.tokenStore.listConnections) {
+      throw new Error('The token store does not support listing connections');
+    }
+
+    return this.tokenStore.listConnections(options);
+  }
+
+  /**
+   * Iterates over all connections in the token store, page by page
+   * @param pageSize Number of connections to fetch per page
+   */
+  public async *iterateConnections(pageSize?: number): AsyncGenerator<ConnectionInfo> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.listConnections({ limit: pageSize, cursor });
+      yield* page.connections;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  /**
+   * Gets connection metadata for a user
+   * @param userId The user ID
+   * @param tenantId The company; the default connection if omitted
+   * @returns When the user connected and last refreshed, and the granted scope
+   */
+  public async getConnectionInfo(
+    userId: string,
+    tenantId?: string
+  ): Promise<ConnectionInfo | null> {
+    if (!this.tokenStore.getConnectionInfo) {
+      throw new Error('The token store does not support connection metadata');
+    }
+
+    const connection = await this.resolveConnection(userId, tenantId);
+    return connection ? this.tokenStore.getConnectionInfo(userId, connection.tenantId) : null;
+  }
+
+  /**
+   * Lists all Fortnox companies a user has connected
+   * @param userId The user ID
+   * @returns The default connection, if any, followed by the other companies
+   */
+  public async getUserConnections(userId: string): Promise<ConnectionInfo[]> {
+    if (!this.tokenStore.getUserConnections) {
+      throw new Error('The token store does not support multiple companies per user');
+    }
+
+    return this.tokenStore.getUserConnections(userId);
+  }
+
+  /**
+   * Saves company metadata for a connection
+   * @param userId The user ID
+   * @param metadata The tenant and company details
+   * @param tenantId The company; the default connection if omitted
+   */
+  public async saveConnectionMetadata(
+    userId: string,
+    metadata: ConnectionMetadata,
+    tenantId?: string
+  ): Promise<void> {
+    if (!this.tokenStore.saveConnectionMetadata) {
+      throw new Error('The token store does not support connection metadata');
+    }
+
+    const connection = await this.resolveConnection(userId, tenantId);
+    await this.tokenStore.saveConnectionMetadata(
+      userId,
+      metadata,
+      connection ? connection.tenantId : tenantId
+    );
+  }
+
+  /**
+   * Finds the connections to a Fortnox tenant
+   * @param tenantId The Fortnox tenant ID
+   * @returns The connections whose metadata has this tenant ID
+   */
+  public async findConnectionsByTenant(tenantId: string): Promise<ConnectionInfo[]> {
+    if (!this.tokenStore.findConnectionsByTenant) {
+      throw new Error('The token store does not support connection metadata');
+    }
+
+    return this.tokenStore.findConnectionsByTenant(tenantId);
   }
 
   /**
    * Rotates the encryption key for tokens
    * @param userId User ID to rotate tokens for
    * @param rotationCallback Function that handles encryption key rotation
+   * @deprecated Configure a keyring on SecureTokenStore and use `reencryptAll` instead
    */
   public async rotateTokenEncryption(
     userId: string, 
@@ -166,6 +487,239 @@ export class TokenManager {
     await rotationCallback(tokens);
   }
 
+  /**
+   * Finds the stored connection for a company. The company a user connected
+   * first is stored as the default connection, so a tenant ID without its own
+   * connection falls back to the default connection if that is the same company.
+   * @param userId The user ID
+   * @param tenantId The company; the default connection if omitted
+   * @returns The tokens and the tenant ID they are stored under, or null if not found
+   */
+  private async resolveConnection(
+    userId: string,
+    tenantId?: string
+  ): Promise<ResolvedConnection | null> {
+    const tokens = await this.tokenStore.getTokens(userId, tenantId);
+
+    if (tokens || !tenantId) {
+      return tokens ? { tokens, tenantId } : null;
+    }
+
+    const defaultTokens = await this.tokenStore.getTokens(userId);
+
+    if (!defaultTokens) {
+      return null;
+    }
+
+    const defaultTenantId =
+      defaultTokens.tenant_id || getTenantIdFromToken(defaultTokens.access_token);
+
+    return defaultTenantId === tenantId ? { tokens: defaultTokens } : null;
+  }
+
+  /**
+   * Requests tokens from the Fortnox token endpoint
+   * @param data The grant parameters
+   * @param headers Additional request headers
+   * @returns The tokens with a calculated expiry date
+   */
+  private async requestTokens(
+    data: Record<string, string>,
+    headers: Record<string, string> = {}
+  ): Promise<FortnoxTokens> {
+    const tokenUrl = `${this.authBaseUrl}/token`;
+    const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+
+    const response = await axios.post(tokenUrl, qs.stringify(data), {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Basic ${credentials}`,
+        ...headers,
+      },
+    });
+
+    return {
+      ...response.data,
+      expiry_date: Date.now() + response.data.expires_in * 1000,
+    };
+  }
+
+  /**
+   * Revokes a refresh token at Fortnox
+   * @param refreshToken The refresh token to revoke
+   */
+  private async revokeRefreshToken(refreshToken: string): Promise<void> {
+    const revokeUrl = `${this.authBaseUrl}/revoke`;
+    const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+
+    await axios.post(
+      revokeUrl,
+      qs.stringify({ token: refreshToken, token_type_hint: 'refresh_token' }),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Authorization': `Basic ${credentials}`,
+        },
+      }
+    );
+  }
+
+  /**
+   * Describes which steps of a revocation completed
+   * @param error The revocation error, or the delete error if Fortnox revoked the token
+   * @param deleteError The delete error, if deleting failed after the revocation did
+   */
+  private createRevocationError(
+    userId: string,
+    error: unknown,
+    remoteRevoked: boolean,
+    localDeleted: boolean,
+    deleteError?: unknown
+  ): TokenRevocationError {
+    const step = remoteRevoked ? 'Failed to delete revoked tokens' : 'Failed to revoke token';
+    const remoteError = remoteRevoked ? undefined : error;
+    const cause = deleteError ?? error;
+    const deleteFailure = deleteError
+      ? `; failed to delete tokens: ${(deleteError as Error).message}`
+      : '';
+
+    if (axios.isAxiosError(error) && error.response) {
+      const { message, status, code, body } = toFortnoxAuthError(step, error, userId);
+      return new TokenRevocationError(`${message}${deleteFailure}`, {
+        status, code, body, userId, cause, remoteError, remoteRevoked, localDeleted,
+      });
+    }
+
+    return new TokenRevocationError(`${step}: ${(error as Error).message}${deleteFailure}`, {
+      userId, cause, remoteError, remoteRevoked, localDeleted,
+    });
+  }
+
+  /**
+   * Exchanges a refresh token for new tokens
+   * @param tokens The current tokens
+   */
+  private async requestRefreshedTokens(tokens: FortnoxTokens): Promise<FortnoxTokens> {
+    const newTokens = await this.requestTokens({
+      grant_type: 'refresh_token',
+      refresh_token: tokens.refresh_token,
+    });
+
+    return {
+      ...newTokens,
+      account_type: tokens.account_type,
+      tenant_id: tokens.tenant_id,
+    };
+  }
+
+  /**
+   * Requests service account tokens using the client credentials grant
+   * @param tenantId The Fortnox tenant ID of the service account
+   */
+  private async requestServiceAccountTokens(tenantId?: string): Promise<FortnoxTokens> {
+    if (!tenantId) {
+      throw new FortnoxAuthError('No tenant ID found for service account', {
+        code: 'no_tenant_id',
+      });
+    }
+
+    const tokens = await this.requestTokens(
+      { grant_type: 'client_credentials' },
+      { TenantId: tenantId }
+    );
+
+    return {
+      ...tokens,
+      refresh_token: '',
+      account_type: 'service',
+      tenant_id: tenantId,
+    };
+  }
+
+  /**
+   * Stores refreshed tokens unless another refresh stored newer ones since they were read.
+   * Stores without versions ignore the expected version and always store them.
+   * @param previousTokens The tokens that were refreshed, as read from the store
+   * @returns The refreshed tokens, or the tokens of the refresh that won the race
+   */
+  private async saveRefreshedTokens(
+    userId: string,
+    tenantId: string | undefined,
+    previousTokens: FortnoxTokens,
+    refreshedTokens: FortnoxTokens,
+    attempt: number = 1
+  ): Promise<FortnoxTokens> {
+    try {
+      await this.tokenStore.updateTokens(userId, refreshedTokens, tenantId, {
+        expectedVersion: previousTokens.version,
+      });
+      return refreshedTokens;
+    } catch (error) {
+      if (!(error instanceof TokenVersionConflictError)) {
+        throw error;
+      }
+
+      const latestTokens = await this.tokenStore.getTokens(userId, tenantId);
+
+      if (!latestTokens) {
+        throw new FortnoxAuthError('No tokens found for user', { userId, code: 'no_tokens' });
+      }
+
+      // The row was written without changing the tokens; ours are still the newest
+      if (this.isSameTokens(latestTokens, previousTokens)) {
+        if (attempt >= MAX_VERSION_CONFLICT_RETRIES) {
+          throw error;
+        }
+        return this.saveRefreshedTokens(
+          userId,
+          tenantId,
+          latestTokens,
+          refreshedTokens,
+          attempt + 1
+        );
+      }
+
+      this.logger.debug('Fortnox tokens were refreshed concurrently, using the newer tokens', {
+        userId,
+        tenantId,
+      });
+      return latestTokens;
+    }
+  }
+
+  /**
+   * Re-reads a connection after a failed refresh
+   * @returns The stored tokens if another refresh replaced the given ones, otherwise null
+   */
+  private async getChangedTokens(
+    userId: string,
+    tenantId: string | undefined,
+    previousTokens: FortnoxTokens
+  ): Promise<FortnoxTokens | null> {
+    const latestTokens = await this.tokenStore.getTokens(userId, tenantId).catch(() => null);
+
+    return latestTokens && !this.isSameTokens(latestTokens, previousTokens) ? latestTokens : null;
+  }
+
+  /**
+   * Compares the credentials of two token sets, ignoring versions and encryption
+   */
+  private isSameTokens(a: FortnoxTokens, b: FortnoxTokens): boolean {
+    return a.access_token === b.access_token && a.refresh_token === b.refresh_token;
+  }
+
+  /**
+   * Runs fn while holding the distributed refresh lock for a connection, if one is configured
+   * @param key The connection key, see getConnectionKey
+   */
+  private async withRefreshLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    if (!this.lock) {
+      return fn();
+    }
+
+    return this.lock.withLock(`refresh:${key}`, fn);
+  }
+
   /**
    * Check if tokens are currently being refreshed for a user
    */
@@ -185,31 +739,34 @@ export class TokenManager {
   }
 
   /**
-   * Add a callback to the refresh queue for a user
+   * Add a waiting request to the refresh queue for a user
    */
-  private addToRefreshQueue(userId: string, callback: (tokens: FortnoxTokens) => void): void {
+  private addToRefreshQueue(userId: string, entry: RefreshQueueEntry): void {
     const queue = this.refreshQueue.get(userId) || [];
-    queue.push(callback);
+    queue.push(entry);
     this.refreshQueue.set(userId, queue);
   }
 
   /**
-   * Process all callbacks in the refresh queue for a user
+   * Settle all waiting requests in the refresh queue for a user
    */
-  private processRefreshQueue(userId: string, tokens: FortnoxTokens | null): void {
+  private processRefreshQueue(
+    userId: string,
+    tokens: FortnoxTokens | null,
+    error?: unknown
+  ): void {
     const queue = this.refreshQueue.get(userId) || [];
     
-    // Process all callbacks with the new tokens
-    queue.forEach((callback) => {
+    // Resolve with the new tokens, or reject if the refresh failed
+    queue.forEach(({ resolve, reject }) => {
       if (tokens) {
-        callback(tokens);
+        resolve(tokens);
       } else {
-        // If tokens is null, it means the refresh failed
-        // The promise will be rejected elsewhere
+        reject(error);
       }
     });
     
     // Clear the queue
     this.refreshQueue.set(userId, []);
   }
-} 
\ No newline at end of file
+}
@@ -6,5 +6,22 @@
 
 export { AuthorizationService } from './AuthorizationService';
 export { TokenManager } from './TokenManager';
+export type { TokenManagerOptions, RevokeTokensOptions } from './TokenManager';
 export { ApiClientFactory } from './ApiClientFactory';
-export type { ApiClientOptions } from './ApiClientFactory'; 
\ No newline at end of file
+export { ConnectionMetadataService } from './ConnectionMetadataService';
+export { TokenKeepAlive } from './TokenKeepAlive';
+export type { TokenKeepAliveOptions, TokenKeepAliveResult } from './TokenKeepAlive';
+export { FortnoxEventStream, InMemoryOffsetStore } from './FortnoxEventStream';
+export type {
+  FortnoxEvent,
+  FortnoxEventStreamEvents,
+  FortnoxEventStreamOptions,
+  OffsetStore,
+} from './FortnoxEventStream';
+export type { ApiClientOptions, FortnoxRequestConfig } from './ApiClientFactory';
+export { TokenBucketRateLimiter, InMemoryRateLimiterBackend } from './RateLimiter';
+export type {
+  RateLimiter,
+  RateLimiterBackend,
+  TokenBucketRateLimiterOptions,
+} from './RateLimiter';
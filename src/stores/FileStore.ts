@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import { ConnectionMetadata, FortnoxTokens, UpdateTokensOptions } from '../types';
+import { InMemoryStore, StoredConnection } from './InMemoryStore';
+
+export interface FileStoreConfig {
+  filePath: string;
+}
+
+type SerializedConnection = Omit<
+  StoredConnection,
+  'version' | 'createdAt' | 'updatedAt' | 'lastRefreshedAt'
+> & {
+  version?: number; // Missing in files written before versions were added
+  createdAt: string;
+  updatedAt: string;
+  lastRefreshedAt?: string;
+};
+
+/**
+ * File-backed implementation of TokenStore for the CLI and local development.
+ * Connections are kept in memory and written to a JSON file after every change.
+ * Warning: tokens are written in plaintext unless wrapped in a SecureTokenStore,
+ * and concurrent processes overwrite each other's changes.
+ */
+export class FileStore extends InMemoryStore {
+  private filePath: string;
+
+  constructor({ filePath }: FileStoreConfig) {
+    super();
+    this.filePath = filePath;
+  }
+
+  /**
+   * Loads the connections from the file. A missing file is an empty store.
+   */
+  async initialize(): Promise<void> {
+    let contents: string;
+
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const entries = JSON.parse(contents) as Array<[string, SerializedConnection]>;
+
+    this.store = new Map(
+      entries.map(([key, stored]) => [
+        key,
+        {
+          ...stored,
+          version: stored.version || 1,
+          createdAt: new Date(stored.createdAt),
+          updatedAt: new Date(stored.updatedAt),
+          lastRefreshedAt: stored.lastRefreshedAt ? new Date(stored.lastRefreshedAt) : undefined,
+        },
+      ]),
+    );
+  }
+
+  async saveTokens(userId: string, tokens: FortnoxTokens, tenantId?: string): Promise<void> {
+    await super.saveTokens(userId, tokens, tenantId);
+    await this.persist();
+  }
+
+  async updateTokens(
+    userId: string,
+    tokens: FortnoxTokens,
+    tenantId?: string,
+    options?: UpdateTokensOptions,
+  ): Promise<void> {
+    await super.updateTokens(userId, tokens, tenantId, options);
+    await this.persist();
+  }
+
+  async deleteTokens(userId: string, tenantId?: string): Promise<void> {
+    await super.deleteTokens(userId, tenantId);
+    await this.persist();
+  }
+
+  async saveConnectionMetadata(
+    userId: string,
+    metadata: ConnectionMetadata,
+    tenantId?: string,
+  ): Promise<void> {
+    await super.saveConnectionMetadata(userId, metadata, tenantId);
+    await this.persist();
+  }
+
+  /**
+   * Writes all connections to a temporary file readable only by the owner,
+   * then renames it, so a crash never leaves a partly written file
+   */
+  private async persist(): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.writeFile(tempPath, JSON.stringify(Array.from(this.store.entries()), null, 2), {
+      mode: 0o600,
+    });
+    await fs.rename(tempPath, this.filePath);
+  }
+}
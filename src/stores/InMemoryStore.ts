@@ -1,30 +1,156 @@
-import { TokenStore, FortnoxTokens } from '../types';
+import {
+  TokenStore,
+  FortnoxTokens,
+  ConnectionInfo,
+  ConnectionMetadata,
+  ConnectionPage,
+  ListConnectionsOptions,
+  UpdateTokensOptions,
+} from '../types';
+import { TokenVersionConflictError } from '../errors';
+
+export interface StoredConnection {
+  userId: string;
+  tenantId?: string;
+  tokens: FortnoxTokens;
+  version: number; // Incremented on every write
+  createdAt: Date;
+  updatedAt: Date;
+  lastRefreshedAt?: Date;
+  metadata?: ConnectionMetadata;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
 
 /**
  * In-memory implementation of TokenStore
  * Warning: This store is not persistent across server restarts
  */
 export class InMemoryStore implements TokenStore {
-  private store: Map<string, FortnoxTokens>;
+  protected store: Map<string, StoredConnection>;
 
   constructor() {
-    this.store = new Map<string, FortnoxTokens>();
+    this.store = new Map<string, StoredConnection>();
+  }
+
+  async saveTokens(userId: string, tokens: FortnoxTokens, tenantId?: string): Promise<void> {
+    const key = this.key(userId, tenantId);
+    const existing = this.store.get(key);
+    const now = new Date();
+
+    this.store.set(key, {
+      userId,
+      tenantId,
+      tokens: { ...tokens, version: undefined },
+      version: (existing?.version || 0) + 1,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      lastRefreshedAt: existing?.lastRefreshedAt,
+      metadata: existing?.metadata,
+    });
+  }
+
+  async getTokens(userId: string, tenantId?: string): Promise<FortnoxTokens | null> {
+    const stored = this.store.get(this.key(userId, tenantId));
+    return stored ? { ...stored.tokens, version: stored.version } : null;
+  }
+
+  async updateTokens(
+    userId: string,
+    tokens: FortnoxTokens,
+    tenantId?: string,
+    options: UpdateTokensOptions = {},
+  ): Promise<void> {
+    const key = this.key(userId, tenantId);
+    const existing = this.store.get(key);
+    const now = new Date();
+    const { expectedVersion, refreshed = true } = options;
+
+    if (expectedVersion !== undefined && existing?.version !== expectedVersion) {
+      throw new TokenVersionConflictError('Tokens were changed since they were read', {
+        userId,
+        expectedVersion,
+      });
+    }
+
+    this.store.set(key, {
+      userId,
+      tenantId,
+      tokens: { ...tokens, version: undefined },
+      version: (existing?.version || 0) + 1,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      lastRefreshedAt: refreshed ? now : existing?.lastRefreshedAt,
+      metadata: existing?.metadata,
+    });
+  }
+
+  async deleteTokens(userId: string, tenantId?: string): Promise<void> {
+    this.store.delete(this.key(userId, tenantId));
+  }
+
+  async listConnections(options: ListConnectionsOptions = {}): Promise<ConnectionPage> {
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const keys = Array.from(this.store.keys())
+      .sort()
+      .filter((key) => options.cursor === undefined || key > options.cursor);
+    const page = keys.slice(0, limit);
+
+    return {
+      connections: page.map((key) => this.toConnectionInfo(this.store.get(key)!)),
+      nextCursor: keys.length > limit ? page[page.length - 1] : undefined,
+    };
+  }
+
+  async getConnectionInfo(userId: string, tenantId?: string): Promise<ConnectionInfo | null> {
+    const stored = this.store.get(this.key(userId, tenantId));
+    return stored ? this.toConnectionInfo(stored) : null;
+  }
+
+  async getUserConnections(userId: string): Promise<ConnectionInfo[]> {
+    return this.findConnections((stored) => stored.userId === userId);
+  }
+
+  async saveConnectionMetadata(
+    userId: string,
+    metadata: ConnectionMetadata,
+    tenantId?: string,
+  ): Promise<void> {
+    const stored = this.store.get(this.key(userId, tenantId));
+
+    if (stored) {
+      stored.metadata = metadata;
+    }
   }
 
-  async saveTokens(userId: string, tokens: FortnoxTokens): Promise<void> {
-    this.store.set(userId, tokens);
+  async findConnectionsByTenant(tenantId: string): Promise<ConnectionInfo[]> {
+    return this.findConnections((stored) => stored.metadata?.tenantId === tenantId);
   }
 
-  async getTokens(userId: string): Promise<FortnoxTokens | null> {
-    const tokens = this.store.get(userId);
-    return tokens || null;
+  /**
+   * Map key of a connection. Sorts by user ID, with the default connection first.
+   */
+  private key(userId: string, tenantId?: string): string {
+    return JSON.stringify([userId, tenantId || '']);
   }
 
-  async updateTokens(userId: string, tokens: FortnoxTokens): Promise<void> {
-    this.store.set(userId, tokens);
+  private findConnections(predicate: (stored: StoredConnection) => boolean): ConnectionInfo[] {
+    return Array.from(this.store.keys())
+      .sort()
+      .map((key) => this.store.get(key)!)
+      .filter(predicate)
+      .map((stored) => this.toConnectionInfo(stored));
   }
 
-  async deleteTokens(userId: string): Promise<void> {
-    this.store.delete(userId);
+  private toConnectionInfo(stored: StoredConnection): ConnectionInfo {
+    return {
+      userId: stored.userId,
+      tenantId: stored.tenantId,
+      scope: stored.tokens.scope,
+      createdAt: stored.createdAt,
+      updatedAt: stored.updatedAt,
+      lastRefreshedAt: stored.lastRefreshedAt,
+      metadata: stored.metadata,
+    };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,126 @@
+/**
+ * Key Providers
+ *
+ * Key providers wrap and unwrap per-connection data keys with a master key
+ * (envelope encryption). The master key never has to leave the provider, so
+ * a cloud key-management service can implement this interface directly.
+ */
+
+import fs from 'fs';
+import { TokenEncryption } from './TokenEncryption';
+
+/**
+ * Interface for master key providers.
+ * Implement this for a cloud KMS by calling its encrypt/decrypt operations.
+ */
+export interface KeyProvider {
+  /**
+   * Wrap (encrypt) a data key with the master key
+   * @param dataKey The plaintext data key
+   * @returns The wrapped key as a string safe to store next to the tokens
+   */
+  wrapKey(dataKey: Buffer): Promise<string>;
+
+  /**
+   * Unwrap (decrypt) a data key previously wrapped by this provider
+   * @param wrappedKey The wrapped key returned by wrapKey
+   * @returns The plaintext data key
+   */
+  unwrapKey(wrappedKey: string): Promise<Buffer>;
+
+  /**
+   * ID of the master key that wrapKey uses, without `:`. Optional; if implemented,
+   * the ID is stored with each wrapped key, and `reencryptAll()` rewraps the data
+   * keys of other master keys after a rotation.
+   * @returns The active master key ID
+   */
+  getActiveKeyId?(): string;
+}
+
+/**
+ * Options for the LocalKeyProvider
+ */
+export interface LocalKeyProviderOptions {
+  /**
+   * The 32-byte master key, as a Buffer or hex string
+   */
+  masterKey: Buffer | string;
+
+  /**
+   * ID stored with wrapped keys, so the master key can be rotated later
+   * @default 'local'
+   */
+  keyId?: string;
+
+  /**
+   * Retired master keys by ID, still used to unwrap data keys they wrapped.
+   * Keep them until `reencryptAll()` has rewrapped every data key.
+   */
+  previousKeys?: Record<string, Buffer | string>;
+}
+
+/**
+ * Key provider using a master key held by the process, loaded from
+ * an environment variable or a file (e.g. a mounted secret)
+ */
+export class LocalKeyProvider implements KeyProvider {
+  private encryption: TokenEncryption;
+  private keyId: string;
+
+  /**
+   * Create a new LocalKeyProvider
+   * @param options The master key, its ID and retired master keys
+   */
+  constructor(options: LocalKeyProviderOptions) {
+    this.keyId = options.keyId || 'local';
+
+    this.encryption = new TokenEncryption({
+      keys: { ...options.previousKeys, [this.keyId]: options.masterKey },
+      activeKeyId: this.keyId,
+      enforceEncryption: true,
+    });
+  }
+
+  /**
+   * Create a provider from a hex-encoded master key in an environment variable
+   * @param variableName Name of the environment variable
+   * @param options The key ID and retired master keys
+   */
+  public static fromEnv(
+    variableName: string = 'TOKEN_MASTER_KEY',
+    options: Omit<LocalKeyProviderOptions, 'masterKey'> = {},
+  ): LocalKeyProvider {
+    const masterKey = process.env[variableName];
+
+    if (!masterKey) {
+      throw new Error(`Environment variable ${variableName} is not set`);
+    }
+
+    return new LocalKeyProvider({ ...options, masterKey });
+  }
+
+  /**
+   * Create a provider from a file containing a hex-encoded master key
+   * @param filePath Path to the key file
+   * @param options The key ID and retired master keys
+   */
+  public static fromFile(
+    filePath: string,
+    options: Omit<LocalKeyProviderOptions, 'masterKey'> = {},
+  ): LocalKeyProvider {
+    const masterKey = fs.readFileSync(filePath, 'utf8').trim();
+    return new LocalKeyProvider({ ...options, masterKey });
+  }
+
+  public getActiveKeyId(): string {
+    return this.keyId;
+  }
+
+  public async wrapKey(dataKey: Buffer): Promise<string> {
+    return this.encryption.encrypt(dataKey.toString('hex'));
+  }
+
+  public async unwrapKey(wrappedKey: string): Promise<Buffer> {
+    return Buffer.from(this.encryption.decrypt(wrappedKey), 'hex');
+  }
+}
@@ -0,0 +1,64 @@
+import { Pool } from 'pg';
+import { DistributedLock } from '../types';
+
+export interface PostgresAdvisoryLockConfig {
+  /**
+   * Pool to take lock connections from. Each holder keeps a connection for the whole
+   * refresh, so don't share the token store's pool; see the class comment.
+   */
+  pool: Pool;
+  /**
+   * Namespace for the lock keys, so they don't collide with other advisory locks
+   * @default 'fortnox'
+   */
+  namespace?: string;
+  /**
+   * Maximum time to wait for a lock in milliseconds
+   * @default 30000
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Postgres implementation of DistributedLock using transaction-level advisory locks.
+ * The lock is released when the transaction ends, even if the holder crashes.
+ *
+ * A holder keeps one pool connection checked out while fn runs, including the
+ * refresh request and the token store's own queries. Give the lock its own small
+ * pool: sharing the store's pool lets concurrent refreshes take every connection
+ * and then wait forever for one inside fn.
+ */
+export class PostgresAdvisoryLock implements DistributedLock {
+  private pool: Pool;
+  private namespace: string;
+  private timeoutMs: number;
+
+  constructor({ pool, namespace = 'fortnox', timeoutMs = 30000 }: PostgresAdvisoryLockConfig) {
+    this.pool = pool;
+    this.namespace = namespace;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query("SELECT set_config('lock_timeout', $1, true)", [`${this.timeoutMs}ms`]);
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1), hashtext($2))', [
+        this.namespace,
+        key,
+      ]);
+
+      const result = await fn();
+
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -1,5 +1,42 @@
 import { Pool } from 'pg';
-import { TokenStore, FortnoxTokens } from '../types';
+import {
+  TokenStore,
+  FortnoxTokens,
+  ConnectionInfo,
+  ConnectionMetadata,
+  ConnectionPage,
+  ListConnectionsOptions,
+  UpdateTokensOptions,
+} from '../types';
+import { TokenVersionConflictError } from '../errors';
+import { POSTGRES_MIGRATIONS } from './postgresMigrations';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+// An unquoted identifier, optionally schema-qualified, e.g. `auth.fortnox_credentials`
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,62}(\.[A-Za-z_][A-Za-z0-9_]{0,62})?$/;
+
+// Longer identifiers are truncated by Postgres, so derived names could collide
+const MAX_IDENTIFIER_LENGTH = 63;
+
+const MIGRATIONS_TABLE_SUFFIX = '_schema_migrations';
+
+const MIGRATION_LOCK_NAMESPACE = 'fortnox_migrations';
+
+const CONNECTION_COLUMNS = `
+  user_id, tenant_key, scope, created_at, updated_at, last_refreshed_at, metadata
+`;
+
+// The columns selected by CONNECTION_COLUMNS
+interface ConnectionRow {
+  user_id: string;
+  tenant_key: string;
+  scope: string;
+  created_at: Date;
+  updated_at: Date;
+  last_refreshed_at: Date | null;
+  metadata: ConnectionMetadata | null;
+}
 
 export interface PostgresStoreConfig {
   pool: Pool;
@@ -12,45 +49,101 @@ export interface PostgresStoreConfig {
 export class PostgresStore implements TokenStore {
   private pool: Pool;
   private tableName: string;
+  private migrationsTable: string;
 
   constructor({ pool, tableName = 'fortnox_credentials' }: PostgresStoreConfig) {
+    // The table name is interpolated into SQL, so only plain identifiers are accepted
+    if (!TABLE_NAME_PATTERN.test(tableName)) {
+      throw new Error(
+        `Invalid table name "${tableName}": use letters, digits and "_", optionally with a schema`,
+      );
+    }
+
+    const migrationsTable = `${tableName}${MIGRATIONS_TABLE_SUFFIX}`;
+    // Only the table part counts; the schema was checked by the pattern
+    const migrationsTableName = migrationsTable.slice(migrationsTable.lastIndexOf('.') + 1);
+    if (migrationsTableName.length > MAX_IDENTIFIER_LENGTH) {
+      throw new Error(
+        `Invalid table name "${tableName}": the migrations table name "${migrationsTable}" ` +
+          `is longer than ${MAX_IDENTIFIER_LENGTH} characters`,
+      );
+    }
+
     this.pool = pool;
     this.tableName = tableName;
+    this.migrationsTable = migrationsTable;
   }
 
   /**
-   * Initializes the database table
+   * Initializes the database table by running pending migrations
    */
   async initialize(): Promise<void> {
-    const query = `
-      CREATE TABLE IF NOT EXISTS ${this.tableName} (
-        user_id VARCHAR(255) PRIMARY KEY,
-        access_token TEXT NOT NULL,
-        refresh_token TEXT NOT NULL,
-        expires_in INTEGER NOT NULL,
-        scope TEXT NOT NULL,
-        token_type TEXT NOT NULL,
-        expiry_date BIGINT,
-        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
+    await this.migrate();
+  }
+
+  /**
+   * Brings the table up to the latest schema version. Applied versions are recorded in
+   * `<tableName>_schema_migrations`; the migrations run in one transaction under an
+   * advisory lock, so instances starting at the same time don't race.
+   * @returns The versions applied by this call
+   */
+  async migrate(): Promise<number[]> {
+    const { migrationsTable } = this;
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1), hashtext($2))', [
+        MIGRATION_LOCK_NAMESPACE,
+        this.tableName,
+      ]);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ${migrationsTable} (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
 
-    await this.pool.query(query);
+      const result = await client.query(`SELECT version FROM ${migrationsTable}`);
+      const appliedVersions = new Set(result.rows.map((row) => Number(row.version)));
+      const pending = POSTGRES_MIGRATIONS.filter(({ version }) => !appliedVersions.has(version));
+
+      for (const migration of pending) {
+        await client.query(migration.up(this.tableName));
+        await client.query(`INSERT INTO ${migrationsTable} (version, name) VALUES ($1, $2)`, [
+          migration.version,
+          migration.name,
+        ]);
+      }
+
+      await client.query('COMMIT');
+      return pending.map(({ version }) => version);
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 
-  async saveTokens(userId: string, tokens: FortnoxTokens): Promise<void> {
+  async saveTokens(userId: string, tokens: FortnoxTokens, tenantId?: string): Promise<void> {
     const query = `
-      INSERT INTO ${this.tableName} (
-        user_id, access_token, refresh_token, expires_in, scope, token_type, expiry_date
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
-      ON CONFLICT (user_id) DO UPDATE SET
+      INSERT INTO ${this.tableName} AS existing (
+        user_id, access_token, refresh_token, expires_in, scope, token_type, expiry_date,
+        account_type, tenant_id, data_key, tenant_key
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (user_id, tenant_key) DO UPDATE SET
         access_token = EXCLUDED.access_token,
         refresh_token = EXCLUDED.refresh_token,
         expires_in = EXCLUDED.expires_in,
         scope = EXCLUDED.scope,
         token_type = EXCLUDED.token_type,
         expiry_date = EXCLUDED.expiry_date,
+        account_type = EXCLUDED.account_type,
+        tenant_id = EXCLUDED.tenant_id,
+        data_key = EXCLUDED.data_key,
+        version = existing.version + 1,
         updated_at = CURRENT_TIMESTAMP
     `;
 
@@ -62,19 +155,24 @@ export class PostgresStore implements TokenStore {
       tokens.scope,
       tokens.token_type,
       tokens.expiry_date,
+      tokens.account_type ?? null,
+      tokens.tenant_id ?? null,
+      tokens.data_key ?? null,
+      tenantId || '',
     ];
 
     await this.pool.query(query, values);
   }
 
-  async getTokens(userId: string): Promise<FortnoxTokens | null> {
+  async getTokens(userId: string, tenantId?: string): Promise<FortnoxTokens | null> {
     const query = `
-      SELECT access_token, refresh_token, expires_in, scope, token_type, expiry_date
+      SELECT access_token, refresh_token, expires_in, scope, token_type, expiry_date,
+        account_type, tenant_id, data_key, version
       FROM ${this.tableName}
-      WHERE user_id = $1
+      WHERE user_id = $1 AND tenant_key = $2
     `;
 
-    const result = await this.pool.query(query, [userId]);
+    const result = await this.pool.query(query, [userId, tenantId || '']);
     
     if (result.rows.length === 0) {
       return null;
@@ -87,10 +185,20 @@ export class PostgresStore implements TokenStore {
       scope: result.rows[0].scope,
       token_type: result.rows[0].token_type,
       expiry_date: result.rows[0].expiry_date,
+      account_type: result.rows[0].account_type ?? undefined,
+      tenant_id: result.rows[0].tenant_id ?? undefined,
+      data_key: result.rows[0].data_key ?? undefined,
+      version: Number(result.rows[0].version), // BIGINT is returned as a string
     };
   }
 
-  async updateTokens(userId: string, tokens: FortnoxTokens): Promise<void> {
+  async updateTokens(
+    userId: string,
+    tokens: FortnoxTokens,
+    tenantId?: string,
+    options: UpdateTokensOptions = {},
+  ): Promise<void> {
+    const { expectedVersion, refreshed = true } = options;
     const query = `
       UPDATE ${this.tableName}
       SET 
@@ -100,8 +208,14 @@ export class PostgresStore implements TokenStore {
         scope = $5,
         token_type = $6,
         expiry_date = $7,
-        updated_at = CURRENT_TIMESTAMP
-      WHERE user_id = $1
+        account_type = $8,
+        tenant_id = $9,
+        data_key = $10,
+        version = version + 1,
+        updated_at = CURRENT_TIMESTAMP,
+        last_refreshed_at = CASE WHEN $13::boolean THEN CURRENT_TIMESTAMP ELSE last_refreshed_at END
+      WHERE user_id = $1 AND tenant_key = $11
+        AND ($12::bigint IS NULL OR version = $12)
     `;
 
     const values = [
@@ -112,13 +226,130 @@ export class PostgresStore implements TokenStore {
       tokens.scope,
       tokens.token_type,
       tokens.expiry_date,
+      tokens.account_type ?? null,
+      tokens.tenant_id ?? null,
+      tokens.data_key ?? null,
+      tenantId || '',
+      expectedVersion ?? null,
+      refreshed,
     ];
 
-    await this.pool.query(query, values);
+    const result = await this.pool.query(query, values);
+
+    if (expectedVersion !== undefined && result.rowCount === 0) {
+      throw new TokenVersionConflictError('Tokens were changed since they were read', {
+        userId,
+        expectedVersion,
+      });
+    }
   }
 
-  async deleteTokens(userId: string): Promise<void> {
-    const query = `DELETE FROM ${this.tableName} WHERE user_id = $1`;
-    await this.pool.query(query, [userId]);
+  async deleteTokens(userId: string, tenantId?: string): Promise<void> {
+    const query = `DELETE FROM ${this.tableName} WHERE user_id = $1 AND tenant_key = $2`;
+    await this.pool.query(query, [userId, tenantId || '']);
   }
-} 
\ No newline at end of file
+
+  async listConnections(options: ListConnectionsOptions = {}): Promise<ConnectionPage> {
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const [cursorUserId, cursorTenantKey] = this.decodeCursor(options.cursor);
+
+    // Keyset pagination on the primary key; fetch one extra row to detect the last page
+    const query = `
+      SELECT ${CONNECTION_COLUMNS}
+      FROM ${this.tableName}
+      WHERE $1::text IS NULL OR (user_id, tenant_key) > ($1, $2)
+      ORDER BY user_id, tenant_key
+      LIMIT $3
+    `;
+
+    const result = await this.pool.query<ConnectionRow>(query, [
+      cursorUserId,
+      cursorTenantKey,
+      limit + 1,
+    ]);
+    const rows = result.rows.slice(0, limit);
+    const last = rows[rows.length - 1];
+
+    return {
+      connections: rows.map((row) => this.toConnectionInfo(row)),
+      nextCursor: result.rows.length > limit
+        ? JSON.stringify([last.user_id, last.tenant_key])
+        : undefined,
+    };
+  }
+
+  async getConnectionInfo(userId: string, tenantId?: string): Promise<ConnectionInfo | null> {
+    const query = `
+      SELECT ${CONNECTION_COLUMNS}
+      FROM ${this.tableName}
+      WHERE user_id = $1 AND tenant_key = $2
+    `;
+
+    const result = await this.pool.query<ConnectionRow>(query, [userId, tenantId || '']);
+    return result.rows.length > 0 ? this.toConnectionInfo(result.rows[0]) : null;
+  }
+
+  async getUserConnections(userId: string): Promise<ConnectionInfo[]> {
+    const query = `
+      SELECT ${CONNECTION_COLUMNS}
+      FROM ${this.tableName}
+      WHERE user_id = $1
+      ORDER BY tenant_key
+    `;
+
+    const result = await this.pool.query<ConnectionRow>(query, [userId]);
+    return result.rows.map((row) => this.toConnectionInfo(row));
+  }
+
+  async saveConnectionMetadata(
+    userId: string,
+    metadata: ConnectionMetadata,
+    tenantId?: string,
+  ): Promise<void> {
+    const query = `
+      UPDATE ${this.tableName} SET metadata = $3 WHERE user_id = $1 AND tenant_key = $2
+    `;
+    await this.pool.query(query, [userId, tenantId || '', JSON.stringify(metadata)]);
+  }
+
+  async findConnectionsByTenant(tenantId: string): Promise<ConnectionInfo[]> {
+    const query = `
+      SELECT ${CONNECTION_COLUMNS}
+      FROM ${this.tableName}
+      WHERE metadata->>'tenantId' = $1
+      ORDER BY user_id, tenant_key
+    `;
+
+    const result = await this.pool.query<ConnectionRow>(query, [tenantId]);
+    return result.rows.map((row) => this.toConnectionInfo(row));
+  }
+
+  /**
+   * Reads a cursor from listConnections. Cursors from before multi-company
+   * support are a plain user ID.
+   */
+  private decodeCursor(cursor?: string): [string | null, string] {
+    if (!cursor) {
+      return [null, ''];
+    }
+
+    try {
+      const [userId, tenantKey] = JSON.parse(cursor);
+      return [String(userId), String(tenantKey)];
+    } catch {
+      return [cursor, ''];
+    }
+  }
+
+  private toConnectionInfo(row: ConnectionRow): ConnectionInfo {
+    return {
+      userId: row.user_id,
+      tenantId: row.tenant_key || undefined,
+      scope: row.scope,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      lastRefreshedAt: row.last_refreshed_at ?? undefined,
+      metadata: row.metadata ?? undefined,
+    };
+  }
+}
@@ -13,6 +13,19 @@ const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16; // For AES, this is always 16 bytes
 const AUTH_TAG_LENGTH = 16;
 const KEY_LENGTH = 32; // 256 bits
+const DEFAULT_KEY_ID = 'default';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+const FORMAT_VERSION = 'v2';
+
+/**
+ * The parts of an encrypted value
+ */
+interface ParsedCiphertext {
+  version: number; // 0: untagged hex, 1: keyId:hex, 2: v2:keyId:hex
+  keyId?: string;
+  payload: string;
+}
 
 /**
  * Options for token encryption
@@ -23,6 +36,26 @@ export interface TokenEncryptionOptions {
    * If not provided, tokens will not be encrypted (not recommended for production).
    */
   encryptionKey?: Buffer | string;
+
+  /**
+   * Keyring for key rotation, mapping key IDs to 32-byte keys.
+   * Values encrypted with any key in the ring can be decrypted;
+   * new values are encrypted with `activeKeyId`.
+   * Key IDs may contain letters, digits, `-` and `_`.
+   */
+  keys?: Record<string, Buffer | string>;
+
+  /**
+   * ID of the key in `keys` used to encrypt new values.
+   * Required when `keys` is set.
+   */
+  activeKeyId?: string;
+
+  /**
+   * ID of the key used to decrypt values written before key IDs were added.
+   * Defaults to the key given as `encryptionKey`, or `activeKeyId`.
+   */
+  legacyKeyId?: string;
   
   /**
    * Whether to enforce encryption. If true and no encryptionKey is provided,
@@ -36,7 +69,9 @@ export interface TokenEncryptionOptions {
  * Handles encryption and decryption of sensitive token data
  */
 export class TokenEncryption {
-  private encryptionKey?: Buffer;
+  private keys: Map<string, Buffer> = new Map();
+  private activeKeyId?: string;
+  private legacyKeyId?: string;
   private enforceEncryption: boolean;
 
   /**
@@ -45,29 +80,96 @@ export class TokenEncryption {
    */
   constructor(options: TokenEncryptionOptions = {}) {
     if (options.encryptionKey) {
-      this.encryptionKey = typeof options.encryptionKey === 'string'
-        ? Buffer.from(options.encryptionKey, 'hex')
-        : options.encryptionKey;
-      
-      if (this.encryptionKey.length !== KEY_LENGTH) {
-        throw new Error(`Encryption key must be ${KEY_LENGTH} bytes (${KEY_LENGTH * 8} bits)`);
+      this.keys.set(DEFAULT_KEY_ID, TokenEncryption.parseKey(options.encryptionKey));
+      this.activeKeyId = DEFAULT_KEY_ID;
+    }
+
+    if (options.keys) {
+      Object.entries(options.keys).forEach(([keyId, key]) => {
+        if (!KEY_ID_PATTERN.test(keyId)) {
+          throw new Error(`Invalid key ID "${keyId}": use letters, digits, "-" and "_" only`);
+        }
+        this.keys.set(keyId, TokenEncryption.parseKey(key));
+      });
+
+      if (!options.activeKeyId || !this.keys.has(options.activeKeyId)) {
+        throw new Error('activeKeyId must refer to a key in keys');
       }
+      this.activeKeyId = options.activeKeyId;
     }
+
+    this.legacyKeyId = options.legacyKeyId
+      || (options.encryptionKey ? DEFAULT_KEY_ID : this.activeKeyId);
     
     this.enforceEncryption = options.enforceEncryption || false;
     
-    if (this.enforceEncryption && !this.encryptionKey) {
+    if (this.enforceEncryption && !this.activeKeyId) {
       throw new Error('Encryption key is required when enforceEncryption is true');
     }
   }
 
+  /**
+   * The ID of the key used to encrypt new values
+   */
+  public getActiveKeyId(): string | undefined {
+    return this.activeKeyId;
+  }
+
+  /**
+   * Get the ID of the key a value was encrypted with
+   * @param encryptedText An encrypted value
+   * @returns The key ID, or undefined for values written before key IDs were added
+   */
+  public getKeyId(encryptedText: string): string | undefined {
+    return TokenEncryption.parse(encryptedText).keyId;
+  }
+
+  /**
+   * Check whether a value may be a ciphertext, i.e. must not be taken for a plaintext token
+   * @param text A stored value
+   * @returns True for values in the v1 or v2 format, and for hex strings long enough
+   *   to be untagged (v0) ciphertexts
+   */
+  public couldBeCiphertext(text: string): boolean {
+    const { version } = TokenEncryption.parse(text);
+
+    if (version > 0) {
+      return true;
+    }
+
+    // v0 values are hex(iv + authTag + encryptedData) with at least one byte of data
+    return (
+      HEX_PATTERN.test(text) &&
+      text.length % 2 === 0 &&
+      text.length > (IV_LENGTH + AUTH_TAG_LENGTH) * 2
+    );
+  }
+
+  /**
+   * Check whether a value should be re-encrypted with the active key
+   * @param encryptedText An encrypted value
+   * @returns True if the value was encrypted with another key or in an older format
+   */
+  public needsReencryption(encryptedText: string): boolean {
+    if (!this.activeKeyId) {
+      return false;
+    }
+
+    const { version, keyId } = TokenEncryption.parse(encryptedText);
+    return version < 2 || keyId !== this.activeKeyId;
+  }
+
   /**
    * Encrypt a string
    * @param text Text to encrypt
-   * @returns Encrypted data as a hex string, or the original if no encryption key is set
+   * @param aad Additional authenticated data, e.g. the owner of the value.
+   *   The same value must be passed to decrypt.
+   * @returns Encrypted data as a versioned string, or the original if no encryption key is set
    */
-  public encrypt(text: string): string {
-    if (!this.encryptionKey) {
+  public encrypt(text: string, aad?: string): string {
+    const encryptionKey = this.activeKeyId ? this.keys.get(this.activeKeyId) : undefined;
+
+    if (!encryptionKey) {
       if (this.enforceEncryption) {
         throw new Error('Cannot encrypt: No encryption key is set');
       }
@@ -78,7 +180,10 @@ export class TokenEncryption {
     const iv = crypto.randomBytes(IV_LENGTH);
     
     // Create cipher
-    const cipher = crypto.createCipheriv(ALGORITHM, this.encryptionKey, iv);
+    const cipher = crypto.createCipheriv(ALGORITHM, encryptionKey, iv);
+    if (aad !== undefined) {
+      cipher.setAAD(Buffer.from(aad, 'utf8'));
+    }
     
     // Encrypt the data
     let encrypted = cipher.update(text, 'utf8', 'hex');
@@ -87,30 +192,44 @@ export class TokenEncryption {
     // Get the authentication tag
     const authTag = cipher.getAuthTag();
     
-    // Format: iv:authTag:encryptedData
-    return Buffer.concat([
+    // Format: v2:keyId:hex(iv + authTag + encryptedData)
+    const payload = Buffer.concat([
       iv,
       authTag,
       Buffer.from(encrypted, 'hex')
     ]).toString('hex');
+
+    return `${FORMAT_VERSION}:${this.activeKeyId}:${payload}`;
   }
 
   /**
    * Decrypt an encrypted string
    * @param encryptedText Text to decrypt
+   * @param aad The additional authenticated data passed to encrypt.
+   *   Ignored for values written before the v2 format, so those are not bound to it
+   *   until they are re-encrypted; needsReencryption reports them.
    * @returns Decrypted string, or the original if no encryption key is set
    */
-  public decrypt(encryptedText: string): string {
-    if (!this.encryptionKey) {
+  public decrypt(encryptedText: string, aad?: string): string {
+    if (this.keys.size === 0) {
       if (this.enforceEncryption) {
         throw new Error('Cannot decrypt: No encryption key is set');
       }
       return encryptedText; // No encryption
     }
+
+    // Values written before key IDs were added have no prefix
+    const { version, keyId: taggedKeyId, payload } = TokenEncryption.parse(encryptedText);
+    const keyId = taggedKeyId ?? this.legacyKeyId;
+    const decryptionKey = keyId ? this.keys.get(keyId) : undefined;
+
+    if (!decryptionKey) {
+      throw new Error(`Decryption failed: unknown key ID "${keyId}"`);
+    }
     
     try {
       // Convert from hex
-      const encryptedBuffer = Buffer.from(encryptedText, 'hex');
+      const encryptedBuffer = Buffer.from(payload, 'hex');
       
       // Extract parts
       const iv = encryptedBuffer.subarray(0, IV_LENGTH);
@@ -118,8 +237,11 @@ export class TokenEncryption {
       const encryptedData = encryptedBuffer.subarray(IV_LENGTH + AUTH_TAG_LENGTH).toString('hex');
       
       // Create decipher
-      const decipher = crypto.createDecipheriv(ALGORITHM, this.encryptionKey, iv);
+      const decipher = crypto.createDecipheriv(ALGORITHM, decryptionKey, iv);
       decipher.setAuthTag(authTag);
+      if (version >= 2 && aad !== undefined) {
+        decipher.setAAD(Buffer.from(aad, 'utf8'));
+      }
       
       // Decrypt
       let decrypted = decipher.update(encryptedData, 'hex', 'utf8');
@@ -131,6 +253,38 @@ export class TokenEncryption {
     }
   }
 
+  /**
+   * Split an encrypted value into its format version, key ID and payload
+   */
+  private static parse(encryptedText: string): ParsedCiphertext {
+    const parts = encryptedText.split(':');
+    const isTag = (keyId: string, payload: string) => KEY_ID_PATTERN.test(keyId)
+      && HEX_PATTERN.test(payload);
+
+    if (parts.length === 3 && parts[0] === FORMAT_VERSION && isTag(parts[1], parts[2])) {
+      return { version: 2, keyId: parts[1], payload: parts[2] };
+    }
+
+    if (parts.length === 2 && isTag(parts[0], parts[1])) {
+      return { version: 1, keyId: parts[0], payload: parts[1] };
+    }
+
+    return { version: 0, payload: encryptedText };
+  }
+
+  /**
+   * Convert a hex string or buffer to a key, checking its length
+   */
+  private static parseKey(key: Buffer | string): Buffer {
+    const keyBuffer = typeof key === 'string' ? Buffer.from(key, 'hex') : key;
+
+    if (keyBuffer.length !== KEY_LENGTH) {
+      throw new Error(`Encryption key must be ${KEY_LENGTH} bytes (${KEY_LENGTH * 8} bits)`);
+    }
+
+    return keyBuffer;
+  }
+
   /**
    * Generate a random encryption key suitable for AES-256-GCM
    * @returns A Buffer containing a random 32-byte key
@@ -0,0 +1,86 @@
+/**
+ * PostgresStore Migrations
+ *
+ * Ordered schema changes for the credentials table. Tables created before
+ * versioning have no version table, so every migration must be safe to run
+ * against a table that already has the change.
+ */
+
+export interface PostgresMigration {
+  version: number;
+  name: string;
+  /**
+   * Returns the SQL for a credentials table name, which has been validated as an identifier
+   */
+  up: (tableName: string) => string;
+}
+
+export const POSTGRES_MIGRATIONS: PostgresMigration[] = [
+  {
+    version: 1,
+    name: 'create_credentials_table',
+    up: (tableName) => `
+      CREATE TABLE IF NOT EXISTS ${tableName} (
+        user_id VARCHAR(255) NOT NULL,
+        tenant_key TEXT NOT NULL DEFAULT '',
+        access_token TEXT NOT NULL,
+        refresh_token TEXT NOT NULL,
+        expires_in INTEGER NOT NULL,
+        scope TEXT NOT NULL,
+        token_type TEXT NOT NULL,
+        expiry_date BIGINT,
+        account_type TEXT,
+        tenant_id TEXT,
+        data_key TEXT,
+        metadata JSONB,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        last_refreshed_at TIMESTAMP WITH TIME ZONE,
+        PRIMARY KEY (user_id, tenant_key)
+      )
+    `,
+  },
+  {
+    // Columns added to the original schema before migrations were versioned
+    version: 2,
+    name: 'add_account_tenant_and_metadata_columns',
+    up: (tableName) => `
+      ALTER TABLE ${tableName}
+        ADD COLUMN IF NOT EXISTS account_type TEXT,
+        ADD COLUMN IF NOT EXISTS tenant_id TEXT,
+        ADD COLUMN IF NOT EXISTS last_refreshed_at TIMESTAMP WITH TIME ZONE,
+        ADD COLUMN IF NOT EXISTS data_key TEXT,
+        ADD COLUMN IF NOT EXISTS metadata JSONB,
+        ADD COLUMN IF NOT EXISTS tenant_key TEXT NOT NULL DEFAULT ''
+    `,
+  },
+  {
+    // Tables created for one company per user have user_id as the only primary key column
+    version: 3,
+    name: 'add_tenant_key_to_primary_key',
+    up: (tableName) => `
+      DO $$
+      DECLARE
+        pkey_name TEXT;
+      BEGIN
+        SELECT conname INTO pkey_name FROM pg_constraint
+        WHERE conrelid = '${tableName}'::regclass
+          AND contype = 'p'
+          AND array_length(conkey, 1) = 1;
+
+        IF pkey_name IS NOT NULL THEN
+          EXECUTE format('ALTER TABLE ${tableName} DROP CONSTRAINT %I', pkey_name);
+          ALTER TABLE ${tableName} ADD PRIMARY KEY (user_id, tenant_key);
+        END IF;
+      END $$
+    `,
+  },
+  {
+    // Incremented on every write, for compare-and-swap updates
+    version: 4,
+    name: 'add_version_column',
+    up: (tableName) => `
+      ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS version BIGINT NOT NULL DEFAULT 1
+    `,
+  },
+];
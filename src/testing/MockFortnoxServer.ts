@@ -0,0 +1,544 @@
+/**
+ * Mock Fortnox Server
+ *
+ * A local stand-in for the Fortnox OAuth and REST APIs for integration tests:
+ * - Authorizing with PKCE on `/oauth-v1/auth`, approving every request
+ * - Issuing, rotating and revoking tokens on `/oauth-v1/token` and `/oauth-v1/revoke`
+ * - Serving customers, articles, suppliers, invoices, orders and company information on `/3`
+ * - Simulating 401, 429 and 5xx responses
+ *
+ * Point FortnoxClient at it with `authBaseUrl` and `apiBaseUrl`.
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { NextFunction, Request, Response } from 'express';
+import { verifyCodeChallenge } from '../utils/PKCE';
+
+export interface MockFortnoxServerOptions {
+  clientId?: string; // Defaults to 'mock-client-id'
+  clientSecret?: string; // Defaults to 'mock-client-secret'
+  tenantId?: string; // Tenant ID claim of issued access tokens, defaults to '1234567'
+  accessTokenTtlSeconds?: number; // Defaults to 3600
+  /**
+   * Initial entities by resource path,
+   * e.g. `{ customers: [{ CustomerNumber: '1', Name: 'Acme' }] }`
+   */
+  resources?: Record<string, Record<string, unknown>[]>;
+}
+
+/**
+ * A failure returned instead of the next matching responses
+ */
+export interface MockFailure {
+  status: number; // e.g. 401, 429 or 503
+  /**
+   * Request paths to fail, e.g. `/3/customers` or `/oauth-v1/token`.
+   * Defaults to every `/3` request.
+   */
+  path?: string | RegExp;
+  times?: number; // Number of responses to fail, defaults to 1
+  retryAfterSeconds?: number; // Sent as Retry-After
+}
+
+interface AuthorizationCode {
+  redirectUri: string;
+  codeChallenge: string;
+  scope: string;
+  tenantId: string;
+}
+
+interface IssuedToken {
+  scope: string;
+  tenantId: string;
+  expiresAt: number;
+}
+
+interface MockResource {
+  collectionKey: string;
+  entityKey: string;
+  idField: string;
+}
+
+const MOCK_RESOURCES: Record<string, MockResource> = {
+  customers: { collectionKey: 'Customers', entityKey: 'Customer', idField: 'CustomerNumber' },
+  articles: { collectionKey: 'Articles', entityKey: 'Article', idField: 'ArticleNumber' },
+  suppliers: { collectionKey: 'Suppliers', entityKey: 'Supplier', idField: 'SupplierNumber' },
+  invoices: { collectionKey: 'Invoices', entityKey: 'Invoice', idField: 'DocumentNumber' },
+  orders: { collectionKey: 'Orders', entityKey: 'Order', idField: 'DocumentNumber' },
+};
+
+const DEFAULT_PAGE_SIZE = 100;
+
+const randomToken = (): string => crypto.randomBytes(24).toString('hex');
+
+const base64url = (value: object): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/**
+ * Creates an unsigned JWT carrying the claims the SDK reads from Fortnox access tokens
+ */
+const createAccessToken = (tenantId: string, clientId: string): string =>
+  `${base64url({ alg: 'none', typ: 'JWT' })}.${base64url({
+    tenantId,
+    clientId,
+    jti: randomToken(),
+  })}.`;
+
+const oauthError = (res: Response, status: number, error: string, description: string) => {
+  res.status(status).json({ error, error_description: description });
+};
+
+const apiError = (res: Response, status: number, message: string, code?: number) => {
+  res.status(status).json({ ErrorInformation: { error: 1, message, code } });
+};
+
+export class MockFortnoxServer {
+  private clientId: string;
+  private clientSecret: string;
+  private tenantId: string;
+  private accessTokenTtlSeconds: number;
+  private server: http.Server | null = null;
+  private codes = new Map<string, AuthorizationCode>();
+  private accessTokens = new Map<string, IssuedToken>();
+  private refreshTokens = new Map<string, IssuedToken>();
+  private resources = new Map<string, Map<string, Record<string, unknown>>>();
+  private failures: MockFailure[] = [];
+
+  constructor(options: MockFortnoxServerOptions = {}) {
+    this.clientId = options.clientId || 'mock-client-id';
+    this.clientSecret = options.clientSecret || 'mock-client-secret';
+    this.tenantId = options.tenantId || '1234567';
+    this.accessTokenTtlSeconds = options.accessTokenTtlSeconds || 3600;
+
+    Object.keys(MOCK_RESOURCES).forEach((path) => this.resources.set(path, new Map()));
+    Object.entries(options.resources || {}).forEach(([path, entities]) => {
+      entities.forEach((entity) => this.saveEntity(path, entity));
+    });
+  }
+
+  /**
+   * Base URL of the server, e.g. `http://127.0.0.1:53124`
+   */
+  public get url(): string {
+    if (!this.server) {
+      throw new Error('MockFortnoxServer is not started');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Value for the `authBaseUrl` option of FortnoxClient
+   */
+  public get authBaseUrl(): string {
+    return `${this.url}/oauth-v1`;
+  }
+
+  /**
+   * Value for the `apiBaseUrl` option of FortnoxClient
+   */
+  public get apiBaseUrl(): string {
+    return `${this.url}/3`;
+  }
+
+  /**
+   * Starts listening on localhost
+   * @param port The port to listen on; a free port by default
+   * @returns The base URL of the server
+   */
+  public async start(port = 0): Promise<string> {
+    const app = this.createApp();
+
+    await new Promise<void>((resolve, reject) => {
+      this.server = app.listen(port, '127.0.0.1', resolve);
+      this.server.on('error', reject);
+    });
+
+    return this.url;
+  }
+
+  /**
+   * Stops the server
+   */
+  public async stop(): Promise<void> {
+    const { server } = this;
+    this.server = null;
+
+    if (server) {
+      await new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+    }
+  }
+
+  /**
+   * Follows an authorization URL like a user approving access in the browser
+   * @param authUrl The URL returned by `generateAuthUrl`
+   * @param options The tenant ID claim of the tokens, to connect another company
+   * @returns The code and state Fortnox would send to the redirect URI
+   */
+  public async authorize(
+    authUrl: string,
+    options: { tenantId?: string } = {},
+  ): Promise<{ code: string; state: string }> {
+    const url = new URL(authUrl);
+
+    if (options.tenantId) {
+      url.searchParams.set('tenant_id', options.tenantId);
+    }
+
+    const location = await new Promise<string | undefined>((resolve, reject) => {
+      http
+        .get(url, (res) => {
+          res.resume();
+          resolve(res.headers.location);
+        })
+        .on('error', reject);
+    });
+
+    const redirect = location ? new URL(location) : null;
+    const code = redirect?.searchParams.get('code');
+    const state = redirect?.searchParams.get('state');
+
+    if (!code || !state) {
+      throw new Error(
+        `Authorization failed: ${redirect?.searchParams.get('error') || 'no redirect'}`,
+      );
+    }
+
+    return { code, state };
+  }
+
+  /**
+   * Fails the next matching requests
+   * @param failure The status to respond with and which requests to fail
+   */
+  public simulateFailure(failure: MockFailure): void {
+    this.failures.push({ times: 1, ...failure });
+  }
+
+  /**
+   * Expires all issued access tokens, so the next API request gets a 401
+   */
+  public expireAccessTokens(): void {
+    this.accessTokens.forEach((token) => {
+      token.expiresAt = 0;
+    });
+  }
+
+  /**
+   * Lists the entities of a resource, e.g. to check what a test created
+   * @param path The resource path without slashes, e.g. `customers`
+   */
+  public getEntities(path: string): Record<string, unknown>[] {
+    return Array.from(this.resources.get(path)?.values() || []);
+  }
+
+  private createApp(): express.Express {
+    const app = express();
+
+    app.use(express.urlencoded({ extended: false }));
+    app.use(express.json());
+    app.use((req, res, next) => this.applyFailures(req, res, next));
+
+    app.get('/oauth-v1/auth', (req, res) => this.handleAuthorize(req, res));
+    app.post('/oauth-v1/token', (req, res) => this.handleToken(req, res));
+    app.post('/oauth-v1/revoke', (req, res) => this.handleRevoke(req, res));
+
+    app.use('/3', (req, res, next) => this.authenticate(req, res, next));
+    app.get('/3/companyinformation', (_req, res) => {
+      res.json({
+        CompanyInformation: { CompanyName: 'Mock Company AB', OrganizationNumber: '556677-8899' },
+      });
+    });
+    app.get('/3/:resource', (req, res) => this.handleList(req, res));
+    app.get('/3/:resource/:id', (req, res) => this.handleGet(req, res));
+    app.post('/3/:resource', (req, res) => this.handleSave(req, res));
+    app.put('/3/:resource/:id', (req, res) => this.handleSave(req, res));
+    app.delete('/3/:resource/:id', (req, res) => this.handleDelete(req, res));
+
+    return app;
+  }
+
+  /**
+   * Responds with the first simulated failure matching the request
+   */
+  private applyFailures(req: Request, res: Response, next: NextFunction): void {
+    const index = this.failures.findIndex(({ path }) => {
+      if (path === undefined) {
+        return req.path.startsWith('/3/');
+      }
+      return typeof path === 'string' ? req.path === path : path.test(req.path);
+    });
+
+    if (index === -1) {
+      next();
+      return;
+    }
+
+    const failure = this.failures[index];
+    failure.times = (failure.times || 1) - 1;
+    if (failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+
+    if (failure.retryAfterSeconds !== undefined) {
+      res.set('Retry-After', String(failure.retryAfterSeconds));
+    }
+
+    if (failure.status === 401) {
+      apiError(res, 401, 'Invalid access token', 2000311);
+    } else if (failure.status === 429) {
+      res.status(429).json({ message: 'Too Many Requests' });
+    } else {
+      apiError(res, failure.status, 'Simulated failure');
+    }
+  }
+
+  private handleAuthorize(req: Request, res: Response): void {
+    const query = req.query as Record<string, string | undefined>;
+    const redirectUri = query.redirect_uri;
+
+    if (query.client_id !== this.clientId || !redirectUri) {
+      oauthError(res, 400, 'invalid_request', 'Unknown client or missing redirect_uri');
+      return;
+    }
+
+    const redirect = new URL(redirectUri);
+
+    if (query.state) {
+      redirect.searchParams.set('state', query.state);
+    }
+
+    if (
+      query.response_type !== 'code' ||
+      !query.code_challenge ||
+      query.code_challenge_method !== 'S256'
+    ) {
+      redirect.searchParams.set('error', 'invalid_request');
+      res.redirect(redirect.toString());
+      return;
+    }
+
+    const code = randomToken();
+    this.codes.set(code, {
+      redirectUri,
+      codeChallenge: query.code_challenge,
+      scope: query.scope || '',
+      tenantId: query.tenant_id || this.tenantId,
+    });
+
+    redirect.searchParams.set('code', code);
+    res.redirect(redirect.toString());
+  }
+
+  private handleToken(req: Request, res: Response): void {
+    if (!this.isClientAuthenticated(req)) {
+      oauthError(res, 401, 'invalid_client', 'Invalid client credentials');
+      return;
+    }
+
+    const body = req.body as Record<string, string | undefined>;
+
+    if (body.grant_type === 'authorization_code') {
+      const code = body.code && this.codes.get(body.code);
+
+      // Codes are single use
+      if (body.code) {
+        this.codes.delete(body.code);
+      }
+
+      if (!code || code.redirectUri !== body.redirect_uri) {
+        oauthError(res, 400, 'invalid_grant', 'Invalid authorization code');
+        return;
+      }
+
+      if (!verifyCodeChallenge(body.code_verifier || '', code.codeChallenge)) {
+        oauthError(res, 400, 'invalid_grant', 'Invalid code verifier');
+        return;
+      }
+
+      res.json(this.issueTokens(code.scope, code.tenantId, true));
+      return;
+    }
+
+    if (body.grant_type === 'refresh_token') {
+      const issued = body.refresh_token && this.refreshTokens.get(body.refresh_token);
+
+      if (!issued) {
+        oauthError(res, 400, 'invalid_grant', 'Invalid refresh token');
+        return;
+      }
+
+      // Refresh tokens rotate: the old one can't be used again
+      this.refreshTokens.delete(body.refresh_token as string);
+      res.json(this.issueTokens(issued.scope, issued.tenantId, true));
+      return;
+    }
+
+    if (body.grant_type === 'client_credentials') {
+      const tenantId = req.get('TenantId');
+
+      if (!tenantId) {
+        oauthError(res, 400, 'invalid_request', 'Missing TenantId header');
+        return;
+      }
+
+      res.json(this.issueTokens('', tenantId, false));
+      return;
+    }
+
+    oauthError(res, 400, 'unsupported_grant_type', 'Unsupported grant type');
+  }
+
+  private handleRevoke(req: Request, res: Response): void {
+    if (!this.isClientAuthenticated(req)) {
+      oauthError(res, 401, 'invalid_client', 'Invalid client credentials');
+      return;
+    }
+
+    const { token } = req.body as { token?: string };
+
+    if (token) {
+      this.refreshTokens.delete(token);
+      this.accessTokens.delete(token);
+    }
+
+    res.status(200).end();
+  }
+
+  private issueTokens(scope: string, tenantId: string, withRefreshToken: boolean) {
+    const accessToken = createAccessToken(tenantId, this.clientId);
+    const issued = { scope, tenantId, expiresAt: Date.now() + this.accessTokenTtlSeconds * 1000 };
+    this.accessTokens.set(accessToken, issued);
+
+    const refreshToken = withRefreshToken ? randomToken() : undefined;
+    if (refreshToken) {
+      this.refreshTokens.set(refreshToken, { ...issued });
+    }
+
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_in: this.accessTokenTtlSeconds,
+      scope,
+      token_type: 'bearer',
+    };
+  }
+
+  private isClientAuthenticated(req: Request): boolean {
+    const expected = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+    return req.get('Authorization') === `Basic ${expected}`;
+  }
+
+  /**
+   * Rejects API requests without a valid, unexpired access token
+   */
+  private authenticate(req: Request, res: Response, next: NextFunction): void {
+    const accessToken = req.get('Authorization')?.replace(/^Bearer /, '');
+    const issued = accessToken ? this.accessTokens.get(accessToken) : undefined;
+
+    if (!issued || issued.expiresAt <= Date.now()) {
+      apiError(res, 401, 'Invalid access token', 2000311);
+      return;
+    }
+
+    next();
+  }
+
+  private handleList(req: Request, res: Response): void {
+    const resource = MOCK_RESOURCES[req.params.resource];
+
+    if (!resource) {
+      apiError(res, 404, 'Resource not found');
+      return;
+    }
+
+    const entities = this.getEntities(req.params.resource);
+    const limit = Number(req.query.limit) || DEFAULT_PAGE_SIZE;
+    const page = Number(req.query.page) || 1;
+    const totalPages = Math.max(1, Math.ceil(entities.length / limit));
+
+    res.json({
+      MetaInformation: {
+        '@TotalResources': entities.length,
+        '@TotalPages': totalPages,
+        '@CurrentPage': page,
+      },
+      [resource.collectionKey]: entities.slice((page - 1) * limit, page * limit),
+    });
+  }
+
+  private handleGet(req: Request, res: Response): void {
+    const resource = MOCK_RESOURCES[req.params.resource];
+    const entity = this.resources.get(req.params.resource)?.get(req.params.id);
+
+    if (!resource || !entity) {
+      apiError(res, 404, 'Entity not found');
+      return;
+    }
+
+    res.json({ [resource.entityKey]: entity });
+  }
+
+  private handleSave(req: Request, res: Response): void {
+    const resource = MOCK_RESOURCES[req.params.resource];
+    const existing = req.params.id
+      ? this.resources.get(req.params.resource)?.get(req.params.id)
+      : undefined;
+
+    if (!resource || (req.params.id && !existing)) {
+      apiError(res, 404, 'Entity not found');
+      return;
+    }
+
+    const data = req.body?.[resource.entityKey];
+
+    if (!data || typeof data !== 'object') {
+      apiError(res, 400, `Missing ${resource.entityKey}`);
+      return;
+    }
+
+    const entity = this.saveEntity(req.params.resource, { ...existing, ...data });
+    res.status(existing ? 200 : 201).json({ [resource.entityKey]: entity });
+  }
+
+  private handleDelete(req: Request, res: Response): void {
+    const entities = this.resources.get(req.params.resource);
+
+    if (!entities?.delete(req.params.id)) {
+      apiError(res, 404, 'Entity not found');
+      return;
+    }
+
+    res.status(204).end();
+  }
+
+  /**
+   * Stores an entity, numbering it if it has no ID yet
+   */
+  private saveEntity(path: string, data: Record<string, unknown>): Record<string, unknown> {
+    const resource = MOCK_RESOURCES[path];
+    const entities = this.resources.get(path);
+
+    if (!resource || !entities) {
+      throw new Error(`Unknown mock resource "${path}"`);
+    }
+
+    const id = data[resource.idField] ?? String(this.getNextNumber(entities));
+    const entity = { ...data, [resource.idField]: String(id) };
+
+    entities.set(String(id), entity);
+    return entity;
+  }
+
+  /**
+   * Numbers new entities after the highest numeric ID, like Fortnox number series
+   */
+  private getNextNumber(entities: Map<string, Record<string, unknown>>): number {
+    const numbers = Array.from(entities.keys()).map(Number).filter(Number.isInteger);
+    return Math.max(0, ...numbers) + 1;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Testing index file
+ *
+ * Exports test doubles for integration tests. Imported from
+ * `fortnox-node-oauth-kit/testing`, so they stay out of production imports.
+ */
+
+export { MockFortnoxServer } from './MockFortnoxServer';
+export type { MockFailure, MockFortnoxServerOptions } from './MockFortnoxServer';
@@ -1,20 +1,118 @@
 import { StateStorage } from './utils/stateStorage';
 import { ApiClientOptions } from './services';
+import { Logger } from './utils/logger';
+import { MetricsRecorder } from './utils/metrics';
+import { Tracer } from './utils/tracing';
+
+/**
+ * `user` connections use the authorization code flow with rotating refresh tokens,
+ * `service` connections get new tokens through the client credentials grant
+ */
+export type FortnoxAccountType = 'user' | 'service';
 
 export interface FortnoxTokens {
   access_token: string;
-  refresh_token: string;
+  refresh_token: string; // Empty for service accounts, which have no refresh token
   expires_in: number;
   scope: string;
   token_type: string;
   expiry_date?: number; // Calculate and store when we get the token
+  account_type?: FortnoxAccountType; // Defaults to 'user' when missing
+  tenant_id?: string; // Required for service accounts
+  data_key?: string; // Wrapped data key, set by SecureTokenStore with envelope encryption
+  version?: number; // Incremented on every write; set on read by stores with optimistic concurrency
+}
+
+/**
+ * The Fortnox company behind a connection, collected when the user connects
+ */
+export interface ConnectionMetadata {
+  tenantId?: string; // From the access token's tenantId claim
+  companyName?: string; // From /companyinformation, requires the companyinformation scope
+  organizationNumber?: string; // From /companyinformation, e.g. 556677-8899
+  collectedAt: string; // ISO timestamp
+}
+
+/**
+ * Identifies a connection. A user can connect several Fortnox companies;
+ * without a tenant ID, the user's default connection is meant.
+ */
+export interface ConnectionRef {
+  userId: string;
+  tenantId?: string;
+}
+
+export interface ConnectionInfo {
+  userId: string;
+  tenantId?: string; // Undefined for the user's default connection
+  scope: string;
+  createdAt: Date; // When the user connected
+  updatedAt: Date; // When the tokens were last written
+  lastRefreshedAt?: Date; // When the tokens were last refreshed, if ever
+  metadata?: ConnectionMetadata; // Undefined until collected
+}
+
+export interface ListConnectionsOptions {
+  limit?: number; // Page size, defaults to 100
+  cursor?: string; // nextCursor from the previous page
 }
 
+export interface ConnectionPage {
+  connections: ConnectionInfo[];
+  nextCursor?: string; // Undefined on the last page
+}
+
+export interface UpdateTokensOptions {
+  /**
+   * Only update if the stored tokens still have this version, as read with `getTokens`.
+   * Otherwise a TokenVersionConflictError is thrown. Ignored if undefined.
+   */
+  expectedVersion?: number;
+  /**
+   * Whether the tokens were issued by a refresh, which sets lastRefreshedAt.
+   * Pass false when writing back the same tokens, e.g. re-encrypted.
+   * @default true
+   */
+  refreshed?: boolean;
+}
+
+/**
+ * Storage for connections. Every method takes an optional tenant ID that
+ * selects one of a user's Fortnox companies; without it, the user's default
+ * connection is used. Stores that ignore the tenant ID support one company per user.
+ */
 export interface TokenStore {
-  saveTokens(userId: string, tokens: FortnoxTokens): Promise<void>;
-  getTokens(userId: string): Promise<FortnoxTokens | null>;
-  updateTokens(userId: string, tokens: FortnoxTokens): Promise<void>;
-  deleteTokens(userId: string): Promise<void>;
+  saveTokens(userId: string, tokens: FortnoxTokens, tenantId?: string): Promise<void>;
+  getTokens(userId: string, tenantId?: string): Promise<FortnoxTokens | null>;
+  updateTokens(
+    userId: string,
+    tokens: FortnoxTokens,
+    tenantId?: string,
+    options?: UpdateTokensOptions,
+  ): Promise<void>;
+  deleteTokens(userId: string, tenantId?: string): Promise<void>;
+  // Optional listing and metadata capability, required by TokenKeepAlive
+  listConnections?(options?: ListConnectionsOptions): Promise<ConnectionPage>;
+  getConnectionInfo?(userId: string, tenantId?: string): Promise<ConnectionInfo | null>;
+  getUserConnections?(userId: string): Promise<ConnectionInfo[]>;
+  // Optional company metadata capability
+  saveConnectionMetadata?(
+    userId: string,
+    metadata: ConnectionMetadata,
+    tenantId?: string,
+  ): Promise<void>;
+  findConnectionsByTenant?(tenantId: string): Promise<ConnectionInfo[]>;
+}
+
+/**
+ * Lock shared between processes.
+ * Used to make sure only one process refreshes a user's single-use refresh token at a time.
+ */
+export interface DistributedLock {
+  /**
+   * Runs fn while holding the lock for key, waiting for the lock if another holder has it
+   */
+  withLock<T>(key: string, fn: () => Promise<T>): Promise<T>;
 }
 
 export interface FortnoxClientConfig {
@@ -25,11 +123,91 @@ export interface FortnoxClientConfig {
   tokenStore?: TokenStore;
   stateStorage?: StateStorage; // Added for secure state management
   apiOptions?: ApiClientOptions; // Options for API client configuration
+  accountType?: FortnoxAccountType; // Default account type for authorization URLs
+  refreshLock?: DistributedLock; // Serializes token refreshes across processes
+  collectConnectionMetadata?: boolean; // Collect company metadata on connect, defaults to true
+  logger?: Logger; // Receives redacted log messages, defaults to warnings and errors on the console
+  metrics?: MetricsRecorder; // Records request, refresh and state store metrics, e.g. InMemoryMetrics
+  tracer?: Tracer; // Creates spans for code exchanges, refreshes and API requests, e.g. OpenTelemetry
+  authBaseUrl?: string; // Defaults to https://apps.fortnox.se/oauth-v1, e.g. a MockFortnoxServer
+  apiBaseUrl?: string; // Defaults to https://api.fortnox.se/3
+}
+
+/**
+ * Identifies the connection an event is about
+ */
+export interface FortnoxConnectionEvent {
+  userId: string;
+  tenantId?: string; // Undefined for the user's default connection
+}
+
+export interface FortnoxConnectedEvent extends FortnoxConnectionEvent {
+  accountType: FortnoxAccountType;
+}
+
+export interface FortnoxTokenRefreshedEvent extends FortnoxConnectionEvent {
+  expiresAt?: Date;
+}
+
+export interface FortnoxRefreshFailedEvent extends FortnoxConnectionEvent {
+  error: unknown;
+}
+
+export interface FortnoxDisconnectedEvent extends FortnoxConnectionEvent {
+  revoked: boolean; // False if revoking at Fortnox failed and the tokens were only deleted
+}
+
+export interface FortnoxApiRequestEvent extends FortnoxConnectionEvent {
+  method: string;
+  url: string;
+}
+
+export interface FortnoxApiErrorEvent extends FortnoxConnectionEvent {
+  method?: string;
+  url?: string;
+  error: Error;
+}
+
+export interface FortnoxRateLimitedEvent extends FortnoxConnectionEvent {
+  retryAfterMs: number; // Delay before the next attempt
+  attempt: number; // Retry number, starting at 1
+}
+
+/**
+ * Listeners of FortnoxClient by event name
+ */
+export interface FortnoxClientEvents {
+  connected: (event: FortnoxConnectedEvent) => void;
+  tokenRefreshed: (event: FortnoxTokenRefreshedEvent) => void;
+  refreshFailed: (event: FortnoxRefreshFailedEvent) => void;
+  disconnected: (event: FortnoxDisconnectedEvent) => void;
+  apiRequest: (event: FortnoxApiRequestEvent) => void;
+  apiError: (event: FortnoxApiErrorEvent) => void;
+  rateLimited: (event: FortnoxRateLimitedEvent) => void;
+}
+
+/**
+ * Receives the events of the services, e.g. a FortnoxClient
+ */
+export interface FortnoxEventSink {
+  emit<E extends keyof FortnoxClientEvents>(
+    event: E,
+    ...args: Parameters<FortnoxClientEvents[E]>
+  ): boolean;
 }
 
 export interface FortnoxAuthOptions {
   state?: string;
   codeVerifier?: string;
+  accountType?: FortnoxAccountType;
+  additionalCompany?: boolean; // Keep the default connection and connect another company
+}
+
+export interface FortnoxStateData {
+  userId: string;
+  codeVerifier: string;
+  accountType?: FortnoxAccountType;
+  additionalCompany?: boolean;
 }
 
 export interface FortnoxAuthPayload {
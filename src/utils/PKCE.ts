@@ -61,11 +61,16 @@ export const createState = (): string => {
  * @returns true if the challenge matches the verifier, false otherwise
  */
 export const verifyCodeChallenge = (codeVerifier: string, codeChallenge: string): boolean => {
-  if (!codeVerifier || !codeChallenge) {
+  if (!codeVerifier || !codeChallenge || codeVerifier.length < 43 || codeVerifier.length > 128) {
     return false;
   }
   
   const calculatedChallenge = createCodeChallenge(codeVerifier);
+
+  // timingSafeEqual throws for buffers of different lengths
+  if (calculatedChallenge.length !== codeChallenge.length) {
+    return false;
+  }
   
   // Use a timing-safe comparison to prevent timing attacks
   return crypto.timingSafeEqual(
@@ -0,0 +1,20 @@
+/**
+ * Connection Utilities
+ *
+ * A connection is identified by the user ID and, for users with several
+ * Fortnox companies, the tenant ID of the company. Connections without a
+ * tenant ID are the user's default connection.
+ */
+
+// Escapes backslashes and colons so that an unescaped colon only ever separates the parts
+const escapeKeyPart = (part: string): string => part.replace(/\\/g, '\\\\').replace(/:/g, '\\:');
+
+/**
+ * Builds a string key for a connection, e.g. for locks and rate limit buckets.
+ * The key of a default connection is the escaped user ID, so user `a:b` and
+ * user `a` with tenant `b` get different keys.
+ * @param userId The user ID
+ * @param tenantId The tenant ID, if not the default connection
+ */
+export const getConnectionKey = (userId: string, tenantId?: string): string =>
+  tenantId ? `${escapeKeyPart(userId)}:${escapeKeyPart(tenantId)}` : escapeKeyPart(userId);
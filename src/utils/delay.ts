@@ -0,0 +1,43 @@
+/**
+ * Timing utilities
+ */
+
+/**
+ * Resolves after the given number of milliseconds
+ */
+export const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+/**
+ * Exponential backoff delay with full jitter
+ * @param attempt Zero-based retry attempt
+ * @param baseMs Delay of the first attempt
+ * @param maxMs Upper bound for the delay
+ */
+export const backoffDelay = (attempt: number, baseMs: number, maxMs: number): number =>
+  Math.round(Math.random() * Math.min(maxMs, baseMs * 2 ** attempt));
+
+/**
+ * Parses a Retry-After header value
+ * @param value Either a number of seconds or an HTTP date
+ * @returns The delay in milliseconds, or undefined if the value can't be parsed
+ */
+export const parseRetryAfter = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(String(value));
+  if (!Number.isNaN(date)) {
+    return Math.max(date - Date.now(), 0);
+  }
+
+  return undefined;
+};
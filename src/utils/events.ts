@@ -0,0 +1,33 @@
+/**
+ * Event Utilities
+ *
+ * Emits service events without letting a failing listener break the
+ * refresh or request that triggered it.
+ */
+
+import { FortnoxClientEvents, FortnoxEventSink } from '../types';
+import { Logger } from './logger';
+
+/**
+ * Emits an event if a sink is configured, logging listener errors instead of throwing them
+ * @param sink Where to emit the event, usually the FortnoxClient
+ * @param logger Logger for listener errors
+ * @param event The event name
+ * @param payload The event payload
+ */
+export const emitSafely = <E extends keyof FortnoxClientEvents>(
+  sink: FortnoxEventSink | undefined,
+  logger: Logger,
+  event: E,
+  ...payload: Parameters<FortnoxClientEvents[E]>
+): void => {
+  if (!sink) {
+    return;
+  }
+
+  try {
+    sink.emit(event, ...payload);
+  } catch (error) {
+    logger.error(`Listener for the Fortnox ${event} event failed`, { error });
+  }
+};
@@ -0,0 +1,39 @@
+/**
+ * JWT Utilities
+ *
+ * Fortnox access tokens are JWTs. These helpers read their claims without
+ * verifying the signature, which is fine for tokens received directly from
+ * the Fortnox token endpoint over TLS.
+ */
+
+/**
+ * Decodes the payload of a JWT
+ *
+ * @param token - The JWT to decode
+ * @returns The payload claims, or null if the token is not a valid JWT
+ */
+export const decodeJwtPayload = (token: string): Record<string, unknown> | null => {
+  const parts = token.split('.');
+
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    return payload && typeof payload === 'object' ? payload : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Reads the Fortnox tenant ID from an access token
+ *
+ * @param accessToken - A Fortnox access token
+ * @returns The tenant ID, or undefined if the token does not carry one
+ */
+export const getTenantIdFromToken = (accessToken: string): string | undefined => {
+  const tenantId = decodeJwtPayload(accessToken)?.tenantId;
+  return tenantId === undefined || tenantId === null ? undefined : String(tenantId);
+};
@@ -0,0 +1,153 @@
+/**
+ * Logging Utilities
+ *
+ * A minimal logger interface that winston loggers satisfy as they are, with
+ * an adapter for pino. Everything logged through `createRedactingLogger`
+ * has tokens, secrets and authorization headers removed first.
+ */
+
+import { FortnoxError } from '../errors';
+
+export type LogMeta = Record<string, unknown>;
+
+/**
+ * Logger used by all SDK modules. Matches winston's `logger.warn(message, meta)`.
+ */
+export interface Logger {
+  debug(message: string, meta?: LogMeta): void;
+  info(message: string, meta?: LogMeta): void;
+  warn(message: string, meta?: LogMeta): void;
+  error(message: string, meta?: LogMeta): void;
+}
+
+/**
+ * The parts of a pino logger used by `adaptPinoLogger`
+ */
+export interface PinoLike {
+  debug(obj: object, message?: string): void;
+  info(obj: object, message?: string): void;
+  warn(obj: object, message?: string): void;
+  error(obj: object, message?: string): void;
+}
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose values are never logged
+const SENSITIVE_KEY_PATTERN =
+  /token|secret|password|authorization|cookie|verifier|data_key|encryption_?key|master_?key/i;
+
+// Bearer credentials and JWTs inside strings, e.g. error messages
+const SENSITIVE_VALUE_PATTERN = /Bearer\s+[\w.~+/=-]+|eyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+
+const MAX_DEPTH = 5;
+
+/**
+ * Describes an error without its request config, which holds credentials
+ */
+const serializeError = (error: Error): LogMeta => {
+  const serialized: LogMeta = { name: error.name, message: error.message };
+
+  if (error instanceof FortnoxError) {
+    serialized.kind = error.kind;
+    serialized.status = error.status;
+    serialized.code = error.code;
+    serialized.userId = error.userId;
+  }
+
+  return serialized;
+};
+
+const redactValue = (value: unknown, depth: number): unknown => {
+  if (typeof value === 'string') {
+    return value.replace(SENSITIVE_VALUE_PATTERN, REDACTED);
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+
+  if (value instanceof Error) {
+    return redactValue(serializeError(value), depth + 1);
+  }
+
+  if (value instanceof Date) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY_PATTERN.test(key) ? REDACTED : redactValue(item, depth + 1),
+    ]),
+  );
+};
+
+/**
+ * Returns a copy of a value with credentials replaced by `[REDACTED]`.
+ * Errors are reduced to their name, message and Fortnox details.
+ * @param value The value to redact
+ */
+export const redact = (value: unknown): unknown => redactValue(value, 0);
+
+/**
+ * Wraps a logger so messages and metadata are redacted before they are logged
+ * @param logger The logger to write to
+ */
+export const createRedactingLogger = (logger: Logger): Logger => {
+  const write = (level: keyof Logger) => (message: string, meta?: LogMeta) => {
+    const redactedMessage = redact(message) as string;
+
+    if (meta) {
+      logger[level](redactedMessage, redact(meta) as LogMeta);
+    } else {
+      logger[level](redactedMessage);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+};
+
+/**
+ * Adapts a pino logger, which takes the metadata before the message
+ * @param logger A pino logger or child logger
+ */
+export const adaptPinoLogger = (logger: PinoLike): Logger => ({
+  debug: (message, meta) => logger.debug(meta || {}, message),
+  info: (message, meta) => logger.info(meta || {}, message),
+  warn: (message, meta) => logger.warn(meta || {}, message),
+  error: (message, meta) => logger.error(meta || {}, message),
+});
+
+/**
+ * Logs warnings and errors to the console and drops debug and info messages.
+ * The default logger.
+ */
+export const consoleLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: (message, meta) => (meta ? console.warn(message, meta) : console.warn(message)),
+  error: (message, meta) => (meta ? console.error(message, meta) : console.error(message)),
+};
+
+/**
+ * Discards everything
+ */
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
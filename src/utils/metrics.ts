@@ -0,0 +1,202 @@
+/**
+ * Metrics Utilities
+ *
+ * A small recorder interface for counters, histograms and gauges, so any
+ * metrics library can be plugged in, and an in-memory implementation that
+ * renders the Prometheus text format.
+ */
+
+export type MetricLabels = Record<string, string | number>;
+
+/**
+ * Records the metrics reported by the SDK
+ */
+export interface MetricsRecorder {
+  incrementCounter(name: string, labels?: MetricLabels, value?: number): void;
+  observeHistogram(name: string, value: number, labels?: MetricLabels): void;
+  setGauge(name: string, value: number, labels?: MetricLabels): void;
+}
+
+/**
+ * Names of the metrics reported by the SDK
+ */
+export const FORTNOX_METRICS = {
+  apiRequestDuration: 'fortnox_api_request_duration_seconds', // Labels: method, endpoint, status
+  tokenRefreshes: 'fortnox_token_refreshes_total', // Labels: result (success or failure)
+  unauthorizedRetries: 'fortnox_unauthorized_retries_total', // Requests retried after a 401
+  rateLimited: 'fortnox_rate_limited_total', // 429 responses, including retried ones
+  stateStoreSize: 'fortnox_state_store_size', // Pending authorization states
+} as const;
+
+const METRIC_HELP: Record<string, string> = {
+  [FORTNOX_METRICS.apiRequestDuration]: 'Duration of Fortnox API requests in seconds',
+  [FORTNOX_METRICS.tokenRefreshes]: 'Fortnox token refreshes by result',
+  [FORTNOX_METRICS.unauthorizedRetries]: 'Fortnox API requests retried after a 401 response',
+  [FORTNOX_METRICS.rateLimited]: 'Fortnox API responses with status 429',
+  [FORTNOX_METRICS.stateStoreSize]: 'Pending authorization states in the state storage',
+};
+
+// Seconds; Fortnox requests usually take 100-500 ms
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface HistogramValue {
+  buckets: number[]; // Cumulative counts per upper bound
+  sum: number;
+  count: number;
+}
+
+interface Metric {
+  type: MetricType;
+  series: Map<string, { labels: MetricLabels; value: number | HistogramValue }>;
+}
+
+export interface InMemoryMetricsOptions {
+  /**
+   * Upper bounds of the histogram buckets
+   * @default [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+   */
+  buckets?: number[];
+}
+
+const escapeLabelValue = (value: string | number): string =>
+  String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: MetricLabels): string => {
+  const entries = Object.entries(labels);
+
+  if (entries.length === 0) {
+    return '';
+  }
+
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+/**
+ * Keeps metrics in memory and renders them in the Prometheus text format.
+ * This is suitable for single-process deployments scraped by Prometheus.
+ */
+export class InMemoryMetrics implements MetricsRecorder {
+  private metrics = new Map<string, Metric>();
+  private buckets: number[];
+
+  constructor(options: InMemoryMetricsOptions = {}) {
+    this.buckets = [...(options.buckets || DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  public incrementCounter(name: string, labels: MetricLabels = {}, value = 1): void {
+    const series = this.getSeries(name, 'counter', labels, () => 0);
+
+    if (series) {
+      series.value = (series.value as number) + value;
+    }
+  }
+
+  public observeHistogram(name: string, value: number, labels: MetricLabels = {}): void {
+    const series = this.getSeries(name, 'histogram', labels, () => ({
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+
+    if (series) {
+      const histogram = series.value as HistogramValue;
+      this.buckets.forEach((bound, index) => {
+        if (value <= bound) {
+          histogram.buckets[index] += 1;
+        }
+      });
+      histogram.sum += value;
+      histogram.count += 1;
+    }
+  }
+
+  public setGauge(name: string, value: number, labels: MetricLabels = {}): void {
+    const series = this.getSeries(name, 'gauge', labels, () => 0);
+
+    if (series) {
+      series.value = value;
+    }
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text exposition format
+   */
+  public toPrometheusText(): string {
+    const lines: string[] = [];
+
+    this.metrics.forEach((metric, name) => {
+      if (METRIC_HELP[name]) {
+        lines.push(`# HELP ${name} ${METRIC_HELP[name]}`);
+      }
+      lines.push(`# TYPE ${name} ${metric.type}`);
+
+      metric.series.forEach(({ labels, value }) => {
+        if (metric.type !== 'histogram') {
+          lines.push(`${name}${formatLabels(labels)} ${value}`);
+          return;
+        }
+
+        const histogram = value as HistogramValue;
+        this.buckets.forEach((bound, index) => {
+          const bucketLabels = formatLabels({ ...labels, le: bound });
+          lines.push(`${name}_bucket${bucketLabels} ${histogram.buckets[index]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${histogram.count}`);
+        lines.push(`${name}_sum${formatLabels(labels)} ${histogram.sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${histogram.count}`);
+      });
+    });
+
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  /**
+   * Removes all recorded metrics
+   */
+  public reset(): void {
+    this.metrics.clear();
+  }
+
+  /**
+   * Finds or creates the series of a metric with the given labels.
+   * Returns undefined if the name is already used by a metric of another type.
+   */
+  private getSeries(
+    name: string,
+    type: MetricType,
+    labels: MetricLabels,
+    initialValue: () => number | HistogramValue,
+  ) {
+    let metric = this.metrics.get(name);
+
+    if (!metric) {
+      metric = { type, series: new Map() };
+      this.metrics.set(name, metric);
+    }
+
+    if (metric.type !== type) {
+      return undefined;
+    }
+
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    let series = metric.series.get(key);
+
+    if (!series) {
+      series = { labels, value: initialValue() };
+      metric.series.set(key, series);
+    }
+
+    return series;
+  }
+}
+
+/**
+ * Discards all metrics. The default recorder.
+ */
+export const noopMetrics: MetricsRecorder = {
+  incrementCounter: () => undefined,
+  observeHistogram: () => undefined,
+  setGauge: () => undefined,
+};
@@ -0,0 +1,97 @@
+/**
+ * Multipart Utilities
+ *
+ * Builds `multipart/form-data` request bodies as streams, so large files
+ * are uploaded without being buffered in memory.
+ */
+
+import crypto from 'crypto';
+import { Readable } from 'stream';
+
+/**
+ * A file or its contents. Pass a function returning a stream for large
+ * files; it is called again when a request has to be retried.
+ */
+export type FileSource = Buffer | string | (() => Readable);
+
+/**
+ * A single part of a multipart body
+ */
+export interface MultipartPart {
+  name: string;
+  data: FileSource;
+  filename?: string;
+  contentType?: string;
+}
+
+/**
+ * A multipart body and the Content-Type header that goes with it
+ */
+export interface MultipartBody {
+  contentType: string;
+  /**
+   * Creates a stream of the body; call it again to send the body again
+   */
+  createStream: () => Readable;
+}
+
+/**
+ * Escapes a value for use in a quoted header parameter
+ */
+const quote = (value: string): string =>
+  value.replace(/["\\\r\n]/g, (char) => encodeURIComponent(char));
+
+/**
+ * Builds the headers of a single part
+ */
+const partHeader = (boundary: string, part: MultipartPart): string => {
+  let disposition = `form-data; name="${quote(part.name)}"`;
+  if (part.filename) {
+    disposition += `; filename="${quote(part.filename)}"`;
+  }
+
+  const contentType = part.contentType || (part.filename ? 'application/octet-stream' : undefined);
+
+  return [
+    `--${boundary}`,
+    `Content-Disposition: ${disposition}`,
+    ...(contentType ? [`Content-Type: ${contentType}`] : []),
+    '',
+    '',
+  ].join('\r\n');
+};
+
+/**
+ * Yields the body chunk by chunk, reading streamed parts as they are consumed
+ */
+async function* generateParts(boundary: string, parts: MultipartPart[]): AsyncGenerator<Buffer> {
+  for (const part of parts) {
+    yield Buffer.from(partHeader(boundary, part));
+
+    if (typeof part.data === 'function') {
+      for await (const chunk of part.data()) {
+        yield Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      }
+    } else {
+      yield Buffer.isBuffer(part.data) ? part.data : Buffer.from(part.data);
+    }
+
+    yield Buffer.from('\r\n');
+  }
+
+  yield Buffer.from(`--${boundary}--\r\n`);
+}
+
+/**
+ * Creates a streaming `multipart/form-data` body
+ * @param parts The fields and files to send
+ * @returns The Content-Type header, including the boundary, and a factory for the body stream
+ */
+export const createMultipartBody = (parts: MultipartPart[]): MultipartBody => {
+  const boundary = `----FortnoxBoundary${crypto.randomBytes(12).toString('hex')}`;
+
+  return {
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    createStream: () => Readable.from(generateParts(boundary, parts), { objectMode: false }),
+  };
+};
@@ -0,0 +1,98 @@
+/**
+ * Pagination Utilities
+ *
+ * Walks Fortnox list endpoints page by page using the `MetaInformation`
+ * block returned with every list response. Pages are fetched lazily as the
+ * consumer iterates, optionally with a number of pages prefetched in parallel.
+ */
+
+import { AxiosInstance } from 'axios';
+import { ListParams, MetaInformation } from '../resources/models';
+
+/**
+ * Controls for how pages are fetched
+ */
+export interface PaginateOptions {
+  /**
+   * Maximum number of page requests in flight at once
+   * @default 1
+   */
+  concurrency?: number;
+
+  /**
+   * Maximum number of pages to fetch, counted from the first requested page
+   */
+  maxPages?: number;
+
+  /**
+   * Envelope key holding the items, e.g. `Invoices`.
+   * Detected from the first response when omitted.
+   */
+  collectionKey?: string;
+}
+
+interface ListResponse {
+  MetaInformation?: MetaInformation;
+  [key: string]: unknown;
+}
+
+/**
+ * Finds the envelope key holding the list items in a response
+ */
+const findCollectionKey = (data: ListResponse): string | undefined =>
+  Object.keys(data).find((key) => key !== 'MetaInformation' && Array.isArray(data[key]));
+
+/**
+ * Iterates over all items of a Fortnox list endpoint
+ *
+ * @param getClient - Returns an authenticated client; called once per page so refreshed tokens are picked up
+ * @param path - Path of the list endpoint, e.g. `/invoices`
+ * @param params - Query parameters; `page` is the first page, `limit` and `offset` are passed through
+ * @param options - Concurrency and page limits
+ * @returns An async iterable yielding the items of every page in order
+ */
+export async function* paginate<T>(
+  getClient: () => Promise<AxiosInstance>,
+  path: string,
+  params: ListParams = {},
+  options: PaginateOptions = {},
+): AsyncGenerator<T, void, undefined> {
+  const { page: firstPage = 1, ...query } = params;
+  const concurrency = Math.max(1, options.concurrency || 1);
+
+  const fetchPage = async (page: number): Promise<ListResponse> => {
+    const client = await getClient();
+    const response = await client.get(path, { params: { ...query, page } });
+    return response.data;
+  };
+
+  const first = await fetchPage(firstPage);
+  const collectionKey = options.collectionKey || findCollectionKey(first);
+
+  const itemsOf = (data: ListResponse): T[] =>
+    (collectionKey && (data[collectionKey] as T[])) || [];
+
+  const totalPages = first.MetaInformation?.['@TotalPages'] ?? firstPage;
+  const lastPage = options.maxPages
+    ? Math.min(totalPages, firstPage + options.maxPages - 1)
+    : totalPages;
+
+  yield* itemsOf(first);
+
+  const pending: Promise<ListResponse>[] = [];
+  let nextPage = firstPage + 1;
+
+  while (nextPage <= lastPage || pending.length > 0) {
+    // Keep up to `concurrency` page requests in flight
+    while (nextPage <= lastPage && pending.length < concurrency) {
+      const request = fetchPage(nextPage);
+      // Prefetched pages may never be awaited if the consumer stops early
+      request.catch(() => undefined);
+      pending.push(request);
+      nextPage += 1;
+    }
+
+    const data = await pending.shift()!;
+    yield* itemsOf(data);
+  }
+}
@@ -34,6 +34,11 @@ export interface StateStorage {
    * Clear all expired states
    */
   clearExpired(): void;
+
+  /**
+   * Number of stored states, reported as the state store size metric
+   */
+  size?(): number;
 }
 
 /**
@@ -49,6 +54,8 @@ export class InMemoryStateStorage implements StateStorage {
     this.cleanupInterval = setInterval(() => {
       this.clearExpired();
     }, cleanupIntervalMs);
+    // Don't keep the process alive just for the cleanup, e.g. a script or test run
+    this.cleanupInterval.unref();
     
     // Clean up interval on process exit
     process.on('exit', () => {
@@ -80,6 +87,10 @@ export class InMemoryStateStorage implements StateStorage {
     return entry.data;
   }
 
+  public size(): number {
+    return this.states.size;
+  }
+
   public clearExpired(): void {
     const now = Date.now();
     for (const [state, entry] of this.states.entries()) {
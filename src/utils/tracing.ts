@@ -0,0 +1,106 @@
+/**
+ * Tracing Utilities
+ *
+ * Span and tracer interfaces that OpenTelemetry tracers satisfy as they are,
+ * e.g. `trace.getTracer('fortnox')`, so tracing needs no specific vendor.
+ */
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Span status codes, with the values of OpenTelemetry's `SpanStatusCode`
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+// OpenTelemetry's SpanKind.CLIENT
+const SPAN_KIND_CLIENT = 2;
+
+/**
+ * The parts of an OpenTelemetry span used by the SDK
+ */
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): void;
+  end(): void;
+}
+
+/**
+ * The parts of an OpenTelemetry tracer used by the SDK
+ */
+export interface Tracer {
+  startSpan(name: string, options?: { attributes?: SpanAttributes; kind?: number }): Span;
+}
+
+const noopSpan: Span = {
+  setAttribute: () => noopSpan,
+  setStatus: () => noopSpan,
+  recordException: () => undefined,
+  end: () => undefined,
+};
+
+/**
+ * Creates spans that record nothing. The default tracer.
+ */
+export const noopTracer: Tracer = {
+  startSpan: () => noopSpan,
+};
+
+/**
+ * Starts a client span
+ * @param tracer The tracer to start the span with
+ * @param name The span name
+ * @param attributes Attributes to start the span with; undefined values are left out
+ */
+export const startClientSpan = (tracer: Tracer, name: string, attributes: SpanAttributes): Span =>
+  tracer.startSpan(name, {
+    kind: SPAN_KIND_CLIENT,
+    attributes: Object.fromEntries(
+      Object.entries(attributes).filter(([, value]) => value !== undefined),
+    ),
+  });
+
+/**
+ * Ends a span, recording the error if the operation failed
+ * @param span The span to end
+ * @param error The error the operation failed with, if any
+ */
+export const endSpan = (span: Span, error?: unknown): void => {
+  if (error) {
+    const exception = error instanceof Error ? error : new Error(String(error));
+    span.recordException(exception);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message });
+  } else {
+    span.setStatus({ code: SpanStatusCode.OK });
+  }
+  span.end();
+};
+
+/**
+ * Runs an operation in a client span, ending the span when it settles
+ * @param tracer The tracer to start the span with
+ * @param name The span name
+ * @param attributes Attributes to start the span with
+ * @param operation The operation to trace
+ */
+export const withSpan = async <T>(
+  tracer: Tracer,
+  name: string,
+  attributes: SpanAttributes,
+  operation: (span: Span) => Promise<T>,
+): Promise<T> => {
+  const span = startClientSpan(tracer, name, attributes);
+
+  try {
+    const result = await operation(span);
+    endSpan(span);
+    return result;
+  } catch (error) {
+    endSpan(span, error);
+    throw error;
+  }
+};
@@ -0,0 +1,162 @@
+/**
+ * Tests of the framework-neutral auth handlers with a stubbed FortnoxClient
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  createFortnoxAuthHandlers,
+  createFortnoxAuthRoutes,
+  FortnoxAuthRouterAction,
+  FortnoxClient,
+  FortnoxTokens,
+  Logger,
+} from '../src';
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+const TOKENS: FortnoxTokens = {
+  access_token: 'access',
+  refresh_token: 'refresh',
+  expires_in: 3600,
+  scope: 'customer',
+  token_type: 'bearer',
+  expiry_date: Date.now() + 3600 * 1000,
+};
+
+const createClient = (overrides: Record<string, unknown> = {}): FortnoxClient =>
+  ({
+    logger: silentLogger,
+    validateState: () => ({ userId: 'user-123', codeVerifier: 'verifier' }),
+    exchangeCodeForTokens: async () => TOKENS,
+    getTokens: async () => TOKENS,
+    revokeTokens: async () => undefined,
+    ...overrides,
+  }) as unknown as FortnoxClient;
+
+describe('createFortnoxAuthHandlers', () => {
+  describe('callback', () => {
+    const request = { raw: {}, query: { code: 'code', state: 'state' } };
+
+    it('redirects to the success page after exchanging the code', async () => {
+      const handlers = createFortnoxAuthHandlers({
+        fortnoxClient: createClient(),
+        getUserId: () => 'user-123',
+        successRedirect: '/done',
+      });
+
+      assert.deepEqual(await handlers.callback(request), { type: 'redirect', location: '/done' });
+    });
+
+    it('redirects to the failure page when afterCallback throws', async () => {
+      const handlers = createFortnoxAuthHandlers({
+        fortnoxClient: createClient(),
+        getUserId: () => 'user-123',
+        afterCallback: async () => {
+          throw new Error('hook failed');
+        },
+        failureRedirect: '/failed',
+      });
+
+      assert.deepEqual(await handlers.callback(request), { type: 'redirect', location: '/failed' });
+    });
+  });
+
+  describe('disconnect', () => {
+    it('answers 404 without revoking when the user is not connected', async () => {
+      let revoked = false;
+      const handlers = createFortnoxAuthHandlers({
+        fortnoxClient: createClient({
+          getTokens: async () => null,
+          revokeTokens: async () => {
+            revoked = true;
+          },
+        }),
+        getUserId: () => 'user-123',
+      });
+
+      const result = await handlers.disconnect({ raw: {}, query: {} });
+
+      assert.deepEqual(result, {
+        type: 'json',
+        status: 404,
+        body: { error: 'Not connected to Fortnox', code: 'no_tokens' },
+      });
+      assert.equal(revoked, false);
+    });
+  });
+
+  describe('authorize', () => {
+    it('answers 403 and skips the action when authorize denies it', async () => {
+      const actions: FortnoxAuthRouterAction[] = [];
+      let revoked = false;
+      const handlers = createFortnoxAuthHandlers({
+        fortnoxClient: createClient({
+          revokeTokens: async () => {
+            revoked = true;
+          },
+        }),
+        getUserId: () => 'user-123',
+        authorize: (req, action) => {
+          actions.push(action);
+          return action === 'status';
+        },
+      });
+
+      const status = await handlers.status({ raw: {}, query: {} });
+      const disconnect = await handlers.disconnect({ raw: {}, query: {} });
+      const refresh = await handlers.refresh({ raw: {}, query: {} });
+
+      assert.equal(status.type === 'json' && status.status, 200);
+      assert.deepEqual(disconnect, { type: 'json', status: 403, body: { error: 'Forbidden' } });
+      assert.deepEqual(refresh, { type: 'json', status: 403, body: { error: 'Forbidden' } });
+      assert.deepEqual(actions, ['status', 'disconnect', 'refresh']);
+      assert.equal(revoked, false);
+    });
+
+    it('disconnects when authorize allows it', async () => {
+      const handlers = createFortnoxAuthHandlers({
+        fortnoxClient: createClient(),
+        getUserId: () => 'user-123',
+        authorize: async () => true,
+      });
+
+      assert.deepEqual(await handlers.disconnect({ raw: {}, query: {} }), {
+        type: 'json',
+        status: 200,
+        body: { disconnected: true, revoked: true },
+      });
+    });
+  });
+});
+
+describe('createFortnoxAuthRoutes', () => {
+  const handlers = createFortnoxAuthHandlers({
+    fortnoxClient: createClient(),
+    getUserId: () => 'user-123',
+  });
+
+  it('only mounts the OAuth routes by default', () => {
+    assert.deepEqual(
+      createFortnoxAuthRoutes(handlers).map(({ method, path }) => `${method} ${path}`),
+      ['GET /activate', 'GET /connect-company', 'GET /callback'],
+    );
+  });
+
+  it('mounts the management routes whose paths are set', () => {
+    const routes = createFortnoxAuthRoutes(handlers, {
+      statusPath: '/status',
+      disconnectPath: '/disconnect',
+    });
+
+    assert.deepEqual(
+      routes.map(({ method, path }) => `${method} ${path}`),
+      ['GET /activate', 'GET /connect-company', 'GET /callback', 'GET /status', 'POST /disconnect'],
+    );
+  });
+});
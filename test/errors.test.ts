@@ -0,0 +1,55 @@
+/**
+ * Tests of the mapping from failed Fortnox requests to typed errors
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AxiosError } from 'axios';
+import {
+  FORTNOX_ERROR_CODES,
+  FortnoxApiError,
+  LicenseError,
+  ScopeError,
+  toFortnoxApiError,
+} from '../src';
+
+const apiError = (status: number, code: number, message: string): AxiosError =>
+  ({
+    message: `Request failed with status code ${status}`,
+    response: {
+      status,
+      headers: {},
+      data: { ErrorInformation: { error: 1, message, code } },
+    },
+  }) as AxiosError;
+
+describe('toFortnoxApiError', () => {
+  it('maps catalog codes to their kinds', () => {
+    const error = toFortnoxApiError(apiError(403, 2000663, 'Har inte behörighet för scope'));
+
+    assert.ok(error instanceof ScopeError);
+    assert.equal(error.kind, 'scope');
+  });
+
+  it('throws a LicenseError for a missing license', () => {
+    const error = toFortnoxApiError(apiError(403, 1, 'Det saknas en licens för tjänsten'));
+
+    assert.ok(error instanceof LicenseError);
+    assert.equal(error.kind, 'license');
+  });
+
+  it('uses per-client codes without changing the shared catalog', () => {
+    const codes = { ...FORTNOX_ERROR_CODES, 2000433: 'not_found' as const };
+
+    assert.equal(toFortnoxApiError(apiError(400, 2000433, 'x'), 'u', codes).kind, 'not_found');
+    assert.equal(toFortnoxApiError(apiError(400, 2000433, 'x')).kind, 'validation');
+    assert.ok(Object.isFrozen(FORTNOX_ERROR_CODES));
+  });
+
+  it('falls back to the HTTP status', () => {
+    const error = toFortnoxApiError(apiError(503, 1, 'Service unavailable'));
+
+    assert.ok(error instanceof FortnoxApiError);
+    assert.equal(error.kind, 'server');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Integration tests of FortnoxClient against MockFortnoxServer
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { FortnoxApiError, FortnoxClient, Logger } from '../src';
+import { MockFortnoxServer } from '../src/testing';
+
+const USER_ID = 'user-123';
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+describe('FortnoxClient against MockFortnoxServer', () => {
+  const mock = new MockFortnoxServer({
+    resources: { customers: [{ CustomerNumber: '1', Name: 'Acme AB' }] },
+  });
+  let fortnoxClient: FortnoxClient;
+
+  before(async () => {
+    await mock.start();
+
+    fortnoxClient = new FortnoxClient({
+      clientId: 'mock-client-id',
+      clientSecret: 'mock-client-secret',
+      redirectUri: 'http://localhost:4005/auth-redir',
+      authBaseUrl: mock.authBaseUrl,
+      apiBaseUrl: mock.apiBaseUrl,
+      collectConnectionMetadata: false,
+      logger: silentLogger,
+    });
+  });
+
+  after(async () => {
+    await mock.stop();
+  });
+
+  it('connects a user with PKCE', async () => {
+    const { authUrl } = fortnoxClient.generateAuthUrl(USER_ID);
+    const { code, state } = await mock.authorize(authUrl);
+    const stateData = fortnoxClient.validateState(state);
+    assert.ok(stateData);
+
+    await fortnoxClient.exchangeCodeForTokens(stateData.userId, code, stateData.codeVerifier);
+
+    const tokens = await fortnoxClient.getTokens(USER_ID);
+    assert.ok(tokens?.access_token);
+    assert.ok(tokens?.refresh_token);
+  });
+
+  it('refreshes the tokens and retries after a 401', async () => {
+    const previousTokens = await fortnoxClient.getTokens(USER_ID);
+    mock.simulateFailure({ status: 401 });
+
+    const { items } = await fortnoxClient.forUser(USER_ID).customers.list();
+
+    assert.deepEqual(
+      items.map((customer) => customer.Name),
+      ['Acme AB'],
+    );
+    const tokens = await fortnoxClient.getTokens(USER_ID);
+    assert.notEqual(tokens?.refresh_token, previousTokens?.refresh_token);
+  });
+
+  it('retries after a 429', async () => {
+    const rateLimited: number[] = [];
+    fortnoxClient.on('rateLimited', (event) => rateLimited.push(event.attempt));
+    mock.simulateFailure({ status: 429, times: 2, retryAfterSeconds: 0 });
+
+    const { items } = await fortnoxClient.forUser(USER_ID).customers.list();
+
+    assert.equal(items.length, 1);
+    assert.equal(rateLimited.length, 2);
+  });
+
+  it('decodes the error body of a streaming request', async () => {
+    await assert.rejects(
+      fortnoxClient.forUser(USER_ID).files.downloadStream('missing-file'),
+      (error: unknown) => {
+        assert.ok(error instanceof FortnoxApiError);
+        assert.equal(error.status, 404);
+        assert.match(error.message, /Entity not found/);
+        return true;
+      },
+    );
+  });
+
+  it('revokes the refresh token and deletes the connection', async () => {
+    const tokens = await fortnoxClient.getTokens(USER_ID);
+
+    await fortnoxClient.revokeTokens(USER_ID);
+
+    assert.equal(await fortnoxClient.getTokens(USER_ID), null);
+    // Revoking again is a no-op
+    await fortnoxClient.revokeTokens(USER_ID);
+
+    // The revoked refresh token can't be used anymore
+    const credentials = Buffer.from('mock-client-id:mock-client-secret').toString('base64');
+    const response = await fetch(`${mock.authBaseUrl}/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${credentials}`,
+      },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: tokens?.refresh_token || '',
+      }),
+    });
+    assert.equal(response.status, 400);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests of PostgresStore with a fake pool that records the queries
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Pool } from 'pg';
+import { PostgresStore } from '../src';
+
+/**
+ * Pool with a single client that keeps the applied migration versions in memory
+ */
+const createFakePool = (options: { applied?: number[]; failOn?: RegExp } = {}) => {
+  const applied = [...(options.applied || [])];
+  const queries: string[] = [];
+  let released = 0;
+
+  const client = {
+    query: async (sql: string, values: unknown[] = []) => {
+      queries.push(sql.trim());
+
+      if (options.failOn?.test(sql)) {
+        throw new Error('Migration failed');
+      }
+      if (/^SELECT version FROM/.test(sql.trim())) {
+        return { rows: applied.map((version) => ({ version })) };
+      }
+      if (/^INSERT INTO \w+_schema_migrations/.test(sql.trim())) {
+        applied.push(values[0] as number);
+      }
+      return { rows: [] };
+    },
+    release: () => {
+      released += 1;
+    },
+  };
+
+  const pool = { connect: async () => client } as unknown as Pool;
+
+  return { pool, applied, queries, released: () => released };
+};
+
+describe('PostgresStore', () => {
+  describe('table names', () => {
+    it('rejects names that are not plain identifiers', () => {
+      const { pool } = createFakePool();
+
+      assert.throws(
+        () => new PostgresStore({ pool, tableName: 'credentials; DROP TABLE users' }),
+        /Invalid table name/,
+      );
+    });
+
+    it('rejects names whose migrations table would exceed the identifier limit', () => {
+      const { pool } = createFakePool();
+      // 45 characters plus `_schema_migrations` is the longest allowed name
+      const longest = 'c'.repeat(45);
+
+      assert.doesNotThrow(() => new PostgresStore({ pool, tableName: `auth.${longest}` }));
+      assert.throws(
+        () => new PostgresStore({ pool, tableName: `${longest}c` }),
+        /longer than 63 characters/,
+      );
+    });
+  });
+
+  describe('migrate', () => {
+    it('applies the migrations in order and records them', async () => {
+      const { pool, applied, queries, released } = createFakePool();
+      const store = new PostgresStore({ pool, tableName: 'credentials' });
+
+      assert.deepEqual(await store.migrate(), [1, 2, 3, 4]);
+
+      assert.deepEqual(applied, [1, 2, 3, 4]);
+      assert.equal(queries[0], 'BEGIN');
+      assert.match(queries[1], /pg_advisory_xact_lock/);
+      assert.match(queries[2], /CREATE TABLE IF NOT EXISTS credentials_schema_migrations/);
+      assert.equal(queries[queries.length - 1], 'COMMIT');
+      assert.equal(released(), 1);
+    });
+
+    it('skips migrations that are already applied', async () => {
+      const { pool, applied, queries } = createFakePool({ applied: [1, 2] });
+      const store = new PostgresStore({ pool, tableName: 'credentials' });
+
+      assert.deepEqual(await store.migrate(), [3, 4]);
+      assert.deepEqual(await store.migrate(), []);
+
+      assert.deepEqual(applied, [1, 2, 3, 4]);
+      assert.equal(
+        queries.filter((sql) => /CREATE TABLE IF NOT EXISTS credentials\s/.test(sql)).length,
+        0,
+      );
+    });
+
+    it('rolls back and releases the client when a migration fails', async () => {
+      const { pool, queries, released } = createFakePool({
+        failOn: /ADD COLUMN IF NOT EXISTS version/,
+      });
+      const store = new PostgresStore({ pool, tableName: 'credentials' });
+
+      await assert.rejects(store.migrate(), /Migration failed/);
+
+      assert.equal(queries[queries.length - 1], 'ROLLBACK');
+      assert.ok(!queries.includes('COMMIT'));
+      assert.equal(released(), 1);
+    });
+  });
+});
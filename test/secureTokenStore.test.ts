@@ -0,0 +1,194 @@
+/**
+ * Tests of SecureTokenStore on top of an InMemoryStore
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  FortnoxTokens,
+  InMemoryStore,
+  LocalKeyProvider,
+  PlaintextMigrationPolicy,
+  SecureTokenStore,
+  TokenEncryption,
+} from '../src';
+
+const TOKENS: FortnoxTokens = {
+  access_token: 'access-token',
+  refresh_token: 'refresh-token',
+  expires_in: 3600,
+  scope: 'customer invoice',
+  token_type: 'bearer',
+  expiry_date: 1700000000000,
+};
+
+const oldKey = TokenEncryption.generateKey();
+const newKey = TokenEncryption.generateKey();
+
+describe('SecureTokenStore', () => {
+  describe('key rotation', () => {
+    it('re-encrypts connections of a retired key with reencryptAll', async () => {
+      const baseStore = new InMemoryStore();
+      const before = new SecureTokenStore({ baseStore, keys: { k1: oldKey }, activeKeyId: 'k1' });
+      await before.saveTokens('user-1', TOKENS);
+      await before.saveTokens('user-2', TOKENS, 'tenant-2');
+
+      const after = new SecureTokenStore({
+        baseStore,
+        keys: { k1: oldKey, k2: newKey },
+        activeKeyId: 'k2',
+      });
+      const report = await after.reencryptAll();
+
+      assert.deepEqual(report, { total: 2, reencrypted: 2, skipped: 0, failed: [] });
+      const stored = await baseStore.getTokens('user-2', 'tenant-2');
+      assert.match(stored?.refresh_token || '', /^v2:k2:/);
+
+      // The retired key is no longer needed
+      const rotated = new SecureTokenStore({ baseStore, keys: { k2: newKey }, activeKeyId: 'k2' });
+      assert.equal((await rotated.getTokens('user-1'))?.refresh_token, 'refresh-token');
+      assert.equal((await rotated.getTokens('user-2', 'tenant-2'))?.access_token, 'access-token');
+      assert.deepEqual(await after.reencryptAll(), {
+        total: 2,
+        reencrypted: 0,
+        skipped: 2,
+        failed: [],
+      });
+    });
+
+    it('does not mark re-encrypted connections as refreshed', async () => {
+      const baseStore = new InMemoryStore();
+      await new SecureTokenStore({ baseStore, keys: { k1: oldKey }, activeKeyId: 'k1' }).saveTokens(
+        'user-1',
+        TOKENS,
+      );
+
+      await new SecureTokenStore({
+        baseStore,
+        keys: { k1: oldKey, k2: newKey },
+        activeKeyId: 'k2',
+      }).reencryptAll();
+
+      assert.equal((await baseStore.getConnectionInfo('user-1'))?.lastRefreshedAt, undefined);
+    });
+  });
+
+  describe('binding to connections', () => {
+    it('rejects ciphertexts copied to another connection or field', async () => {
+      const baseStore = new InMemoryStore();
+      const store = new SecureTokenStore({ baseStore, keys: { k1: oldKey }, activeKeyId: 'k1' });
+      await store.saveTokens('user-1', TOKENS);
+      await store.saveTokens('user-2', { ...TOKENS, refresh_token: 'other-refresh-token' });
+      const stolen = await baseStore.getTokens('user-1');
+      assert.ok(stolen);
+
+      await baseStore.saveTokens('user-2', stolen);
+      await assert.rejects(store.getTokens('user-2'), /Decryption failed/);
+
+      // Also for a tenant of the same user
+      await baseStore.saveTokens('user-1', stolen, 'tenant-1');
+      await assert.rejects(store.getTokens('user-1', 'tenant-1'), /Decryption failed/);
+
+      await baseStore.saveTokens('user-1', {
+        ...stolen,
+        access_token: stolen.refresh_token,
+        refresh_token: stolen.access_token,
+      });
+      await assert.rejects(store.getTokens('user-1'), /Decryption failed/);
+    });
+
+    it('keeps user IDs containing colons apart from tenants', async () => {
+      const baseStore = new InMemoryStore();
+      const store = new SecureTokenStore({ baseStore, keys: { k1: oldKey }, activeKeyId: 'k1' });
+      await store.saveTokens('a:b', TOKENS);
+
+      const stored = await baseStore.getTokens('a:b');
+      assert.ok(stored);
+      await baseStore.saveTokens('a', stored, 'b');
+
+      await assert.rejects(store.getTokens('a', 'b'), /Decryption failed/);
+    });
+  });
+
+  describe('envelope encryption', () => {
+    it('rewraps data keys of a rotated master key with reencryptAll', async () => {
+      const baseStore = new InMemoryStore();
+      const before = new SecureTokenStore({
+        baseStore,
+        keyProvider: new LocalKeyProvider({ masterKey: oldKey, keyId: 'a' }),
+      });
+      await before.saveTokens('user-1', TOKENS);
+      assert.match((await baseStore.getTokens('user-1'))?.data_key || '', /^mk:a:/);
+
+      const after = new SecureTokenStore({
+        baseStore,
+        keyProvider: new LocalKeyProvider({
+          masterKey: newKey,
+          keyId: 'b',
+          previousKeys: { a: oldKey },
+        }),
+      });
+      const report = await after.reencryptAll();
+
+      assert.deepEqual(report, { total: 1, reencrypted: 1, skipped: 0, failed: [] });
+      assert.match((await baseStore.getTokens('user-1'))?.data_key || '', /^mk:b:/);
+
+      // The retired master key is no longer needed
+      const rotated = new SecureTokenStore({
+        baseStore,
+        keyProvider: new LocalKeyProvider({ masterKey: newKey, keyId: 'b' }),
+      });
+      assert.equal((await rotated.getTokens('user-1'))?.refresh_token, 'refresh-token');
+      assert.equal((await after.reencryptAll()).skipped, 1);
+    });
+  });
+
+  describe('plaintext migration policy', () => {
+    const createStores = async (migrationPolicy: PlaintextMigrationPolicy) => {
+      const baseStore = new InMemoryStore();
+      await baseStore.saveTokens('user-1', TOKENS);
+      const store = new SecureTokenStore({
+        baseStore,
+        keys: { k1: oldKey },
+        activeKeyId: 'k1',
+        migrationPolicy,
+      });
+      return { baseStore, store };
+    };
+
+    it('rejects plaintext tokens by default', async () => {
+      const { store } = await createStores('reject');
+
+      await assert.rejects(store.getTokens('user-1'), /Decryption failed/);
+    });
+
+    it('returns plaintext tokens as they are with accept', async () => {
+      const { baseStore, store } = await createStores('accept');
+
+      assert.equal((await store.getTokens('user-1'))?.refresh_token, 'refresh-token');
+      assert.equal((await baseStore.getTokens('user-1'))?.refresh_token, 'refresh-token');
+    });
+
+    it('re-saves plaintext tokens encrypted with migrate', async () => {
+      const { baseStore, store } = await createStores('migrate');
+
+      assert.equal((await store.getTokens('user-1'))?.refresh_token, 'refresh-token');
+
+      const stored = await baseStore.getTokens('user-1');
+      assert.match(stored?.access_token || '', /^v2:k1:/);
+      assert.match(stored?.refresh_token || '', /^v2:k1:/);
+      assert.equal((await store.getTokens('user-1'))?.access_token, 'access-token');
+    });
+
+    it('never returns ciphertexts of an unknown key as plaintext', async () => {
+      const { baseStore, store } = await createStores('migrate');
+      const other = new TokenEncryption({ keys: { k1: newKey }, activeKeyId: 'k1' });
+      // An untagged v0 value looks like hex and can't be told apart from a token otherwise
+      const v0 = other.encrypt('refresh-token').replace(/^v2:k1:/, '');
+      await baseStore.saveTokens('user-1', { ...TOKENS, refresh_token: v0 });
+
+      await assert.rejects(store.getTokens('user-1'), /Decryption failed/);
+      assert.equal((await baseStore.getTokens('user-1'))?.refresh_token, v0);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests of TokenEncryption: key IDs, ciphertext formats and key rotation
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TokenEncryption } from '../src';
+
+const oldKey = TokenEncryption.generateKey();
+const newKey = TokenEncryption.generateKey();
+
+describe('TokenEncryption', () => {
+  it('round-trips values tagged with the format version and active key ID', () => {
+    const encryption = new TokenEncryption({ keys: { k1: oldKey }, activeKeyId: 'k1' });
+
+    const encrypted = encryption.encrypt('refresh-token');
+
+    assert.match(encrypted, /^v2:k1:[0-9a-f]+$/);
+    assert.equal(encryption.getKeyId(encrypted), 'k1');
+    assert.equal(encryption.decrypt(encrypted), 'refresh-token');
+  });
+
+  it('decrypts values of retired keys in the keyring and flags them for re-encryption', () => {
+    const before = new TokenEncryption({ keys: { k1: oldKey }, activeKeyId: 'k1' });
+    const after = new TokenEncryption({ keys: { k1: oldKey, k2: newKey }, activeKeyId: 'k2' });
+    const encrypted = before.encrypt('refresh-token');
+
+    assert.equal(after.decrypt(encrypted), 'refresh-token');
+    assert.equal(after.needsReencryption(encrypted), true);
+    assert.equal(after.needsReencryption(after.encrypt('refresh-token')), false);
+  });
+
+  it('reads v1 and untagged v0 values and flags them for re-encryption', () => {
+    const encryption = new TokenEncryption({ keys: { k1: oldKey }, activeKeyId: 'k1' });
+    // Without authenticated data, v2 differs from v1 only by its version prefix
+    const v1 = encryption.encrypt('refresh-token').replace(/^v2:/, '');
+    const v0 = v1.replace(/^k1:/, '');
+
+    assert.equal(encryption.decrypt(v1), 'refresh-token');
+    assert.equal(encryption.decrypt(v0), 'refresh-token');
+    assert.equal(encryption.needsReencryption(v1), true);
+    assert.equal(encryption.needsReencryption(v0), true);
+  });
+
+  it('rejects values of unknown keys', () => {
+    const writer = new TokenEncryption({ keys: { k1: oldKey }, activeKeyId: 'k1' });
+    const reader = new TokenEncryption({ keys: { k2: newKey }, activeKeyId: 'k2' });
+
+    assert.throws(() => reader.decrypt(writer.encrypt('refresh-token')), /unknown key ID "k1"/);
+  });
+
+  it('rejects tampered ciphertexts', () => {
+    const encryption = new TokenEncryption({ keys: { k1: oldKey }, activeKeyId: 'k1' });
+    const encrypted = encryption.encrypt('refresh-token');
+    const tampered = `${encrypted.slice(0, -2)}${encrypted.endsWith('00') ? '11' : '00'}`;
+
+    assert.throws(() => encryption.decrypt(tampered), /Decryption failed/);
+  });
+
+  describe('authenticated data', () => {
+    const encryption = new TokenEncryption({ keys: { k1: oldKey }, activeKeyId: 'k1' });
+
+    it('round-trips with the same authenticated data', () => {
+      const encrypted = encryption.encrypt('refresh-token', 'user-1:refresh_token');
+
+      assert.equal(encryption.decrypt(encrypted, 'user-1:refresh_token'), 'refresh-token');
+    });
+
+    it('rejects other or missing authenticated data', () => {
+      const encrypted = encryption.encrypt('refresh-token', 'user-1:refresh_token');
+
+      assert.throws(
+        () => encryption.decrypt(encrypted, 'user-2:refresh_token'),
+        /Decryption failed/,
+      );
+      assert.throws(
+        () => encryption.decrypt(encrypted, 'user-1:access_token'),
+        /Decryption failed/,
+      );
+      assert.throws(() => encryption.decrypt(encrypted), /Decryption failed/);
+    });
+  });
+});
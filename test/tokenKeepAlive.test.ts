@@ -0,0 +1,64 @@
+/**
+ * Tests of TokenKeepAlive with a stubbed TokenManager
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConnectionInfo, TokenKeepAlive, TokenManager } from '../src';
+
+const createTokenManager = (overrides: Record<string, unknown> = {}): TokenManager =>
+  ({
+    iterateConnections: async function* iterateConnections(): AsyncGenerator<ConnectionInfo> {
+      yield { userId: 'user-1', scope: 'customer', createdAt: new Date(0), updatedAt: new Date(0) };
+    },
+    refreshTokens: async () => {
+      throw new Error('Refresh failed');
+    },
+    ...overrides,
+  }) as unknown as TokenManager;
+
+describe('TokenKeepAlive', () => {
+  it('reports connections that fail to refresh with onError', async () => {
+    const errors: string[] = [];
+    const keepAlive = new TokenKeepAlive(createTokenManager(), {
+      jitterMs: 0,
+      onError: (userId) => errors.push(userId),
+    });
+
+    const result = await keepAlive.runOnce();
+
+    assert.equal(result.checked, 1);
+    assert.deepEqual(
+      result.failed.map(({ userId }) => userId),
+      ['user-1'],
+    );
+    assert.deepEqual(errors, ['user-1']);
+  });
+
+  it('reports a failed listing with onListError instead of onError', async () => {
+    const listError = new Error('Database is down');
+    const onError: unknown[] = [];
+    let reported: unknown;
+    const keepAlive = new TokenKeepAlive(
+      createTokenManager({
+        iterateConnections: () => ({
+          [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(listError) }),
+        }),
+      }),
+      {
+        onError: (userId, error) => onError.push(error),
+        onListError: (error) => {
+          reported = error;
+        },
+      },
+    );
+
+    keepAlive.start();
+    keepAlive.stop();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(reported, listError);
+    assert.deepEqual(onError, []);
+    await assert.rejects(keepAlive.runOnce(), /Database is down/);
+  });
+});
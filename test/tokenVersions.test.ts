@@ -0,0 +1,145 @@
+/**
+ * Tests of token versions: compare-and-swap updates and conflicts in the refresh path
+ */
+
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import {
+  FortnoxClient,
+  FortnoxTokens,
+  InMemoryStore,
+  Logger,
+  TokenVersionConflictError,
+  UpdateTokensOptions,
+} from '../src';
+import { MockFortnoxServer } from '../src/testing';
+
+const USER_ID = 'user-123';
+
+const TOKENS: FortnoxTokens = {
+  access_token: 'access-token',
+  refresh_token: 'refresh-token',
+  expires_in: 3600,
+  scope: 'customer',
+  token_type: 'bearer',
+};
+
+const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Store that lets a test write to a connection right before the next update,
+ * like another process would between reading and saving the tokens
+ */
+class InterleavingStore extends InMemoryStore {
+  public beforeNextUpdate?: () => Promise<void>;
+
+  async updateTokens(
+    userId: string,
+    tokens: FortnoxTokens,
+    tenantId?: string,
+    options?: UpdateTokensOptions,
+  ): Promise<void> {
+    const interleave = this.beforeNextUpdate;
+    this.beforeNextUpdate = undefined;
+    await interleave?.();
+
+    return super.updateTokens(userId, tokens, tenantId, options);
+  }
+}
+
+describe('InMemoryStore versions', () => {
+  it('increments the version on every write', async () => {
+    const store = new InMemoryStore();
+
+    await store.saveTokens(USER_ID, TOKENS);
+    assert.equal((await store.getTokens(USER_ID))?.version, 1);
+
+    await store.updateTokens(USER_ID, TOKENS, undefined, { expectedVersion: 1 });
+    assert.equal((await store.getTokens(USER_ID))?.version, 2);
+  });
+
+  it('rejects an update with a stale expected version', async () => {
+    const store = new InMemoryStore();
+    await store.saveTokens(USER_ID, TOKENS);
+    const read = await store.getTokens(USER_ID);
+
+    await store.updateTokens(USER_ID, { ...TOKENS, access_token: 'winner' }, undefined, {
+      expectedVersion: read?.version,
+    });
+
+    await assert.rejects(
+      store.updateTokens(USER_ID, { ...TOKENS, access_token: 'loser' }, undefined, {
+        expectedVersion: read?.version,
+      }),
+      (error: unknown) => {
+        assert.ok(error instanceof TokenVersionConflictError);
+        assert.equal(error.code, 'version_conflict');
+        assert.equal(error.expectedVersion, 1);
+        return true;
+      },
+    );
+    assert.equal((await store.getTokens(USER_ID))?.access_token, 'winner');
+  });
+});
+
+describe('Refreshing with version conflicts', () => {
+  const mock = new MockFortnoxServer();
+  let store: InterleavingStore;
+  let fortnoxClient: FortnoxClient;
+
+  before(async () => {
+    await mock.start();
+  });
+
+  after(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(async () => {
+    store = new InterleavingStore();
+    fortnoxClient = new FortnoxClient({
+      clientId: 'mock-client-id',
+      clientSecret: 'mock-client-secret',
+      redirectUri: 'http://localhost:4005/auth-redir',
+      authBaseUrl: mock.authBaseUrl,
+      apiBaseUrl: mock.apiBaseUrl,
+      tokenStore: store,
+      collectConnectionMetadata: false,
+      logger: silentLogger,
+    });
+
+    const { authUrl } = fortnoxClient.generateAuthUrl(USER_ID);
+    const { code, state } = await mock.authorize(authUrl);
+    const stateData = fortnoxClient.validateState(state);
+    assert.ok(stateData);
+    await fortnoxClient.exchangeCodeForTokens(stateData.userId, code, stateData.codeVerifier);
+  });
+
+  it('retries the save when the row changed without new tokens', async () => {
+    const previousTokens = await store.getTokens(USER_ID);
+    assert.ok(previousTokens);
+    // E.g. a re-encryption, which writes the same tokens with a new version
+    store.beforeNextUpdate = () =>
+      store.updateTokens(USER_ID, previousTokens, undefined, { refreshed: false });
+
+    const tokens = await fortnoxClient.refreshTokens(USER_ID);
+
+    assert.notEqual(tokens.refresh_token, previousTokens.refresh_token);
+    assert.equal((await store.getTokens(USER_ID))?.refresh_token, tokens.refresh_token);
+  });
+
+  it('returns the tokens of a concurrent refresh that saved first', async () => {
+    const winnerTokens = { ...TOKENS, access_token: 'winner', refresh_token: 'winner' };
+    store.beforeNextUpdate = () => store.updateTokens(USER_ID, winnerTokens);
+
+    const tokens = await fortnoxClient.refreshTokens(USER_ID);
+
+    assert.equal(tokens.access_token, 'winner');
+    assert.equal((await store.getTokens(USER_ID))?.refresh_token, 'winner');
+  });
+});